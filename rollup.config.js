@@ -5,7 +5,7 @@ import commonjs from '@rollup/plugin-commonjs';
 import json from '@rollup/plugin-json';
 import dts from 'rollup-plugin-dts';
 
-const external = ['ky', 'protobufjs'];
+const external = ['ky', 'protobufjs', 'protobufjs/ext/descriptor/index.js'];
 
 const plugins = [
   resolve({
@@ -94,6 +94,19 @@ export default defineConfig([
     plugins
   },
 
+  // protoc plugin bundle
+  {
+    input: 'src/plugin.ts',
+    output: {
+      file: 'dist/protoc-gen-proto2fetch.cjs',
+      format: 'cjs',
+      sourcemap: true,
+      banner: '#!/usr/bin/env node'
+    },
+    external: ['buffer', 'fs', 'path', 'process'],
+    plugins
+  },
+
   // Type declarations
   {
     input: 'src/index.ts',
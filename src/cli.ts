@@ -1,10 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { generate } from './generator/index.js';
+import { DiagnosticsError, generate } from './generator/index.js';
 import type { GeneratorOptions } from './types/index.js';
 
 interface CLIOptions {
-  protoPath?: string;
+  protoPath?: string[];
+  includePaths?: string[];
+  include?: string[];
+  exclude?: string[];
+  descriptorSet?: string;
   outputDir?: string;
   baseUrl?: string;
   packageName?: string;
@@ -12,8 +16,22 @@ interface CLIOptions {
   includeComments?: boolean;
   generateFilterBuilders?: boolean;
   generateSortBuilders?: boolean;
+  generateZodSchemas?: boolean;
+  generateValidators?: boolean;
+  jsonSchema?: 'bundle' | 'perMessage';
   dateType?: 'Date' | 'string';
   bigintType?: 'number' | 'bigint' | 'string';
+  enumStyle?: 'union' | 'enum' | 'const';
+  omitEnumUnspecified?: boolean;
+  oneofStyle?: 'union' | 'tagged';
+  typeNaming?: 'auto' | 'qualified';
+  fieldNaming?: 'original' | 'jsonName' | 'camelCase';
+  strict?: boolean;
+  includeSourceLocations?: boolean;
+  excludeDeprecated?: boolean;
+  includeMethods?: string[];
+  excludeMethods?: string[];
+  customOptions?: string[];
   config?: string;
   help?: boolean;
   version?: boolean;
@@ -26,16 +44,34 @@ proto2fetch - Generate TypeScript API client from protobuf definitions
 Usage: proto2fetch [options]
 
 Options:
-  --proto-path <path>           Path to protobuf files directory
+  --proto-path <path>           Path to protobuf files directory (repeatable)
+  -I, --include-path <path>     Directory searched for imports only (repeatable)
+  --include <glob>              Only generate files matching the glob, relative to their proto path (repeatable)
+  --exclude <glob>              Skip files matching the glob, e.g. "third_party/**" (repeatable)
+  --descriptor-set <path>       Binary FileDescriptorSet or buf image to use instead of --proto-path
   --output-dir <path>           Output directory for generated files
-  --base-url <url>              Base URL for API client (default: current hostname)
+  --base-url <url>              Base URL for API client (default: openapiv2 host, else current hostname)
   --package-name <name>         Name for generated package
   --client-name <name>          Name for generated client class (default: APIClient)
   --include-comments            Include comments in generated code (default: true)
   --generate-filter-builders    Generate filter builder classes (default: true)
   --generate-sort-builders      Generate sort builder classes (default: true)
+  --generate-zod-schemas        Generate Zod schemas in schemas.ts (default: false)
+  --generate-validators         Generate protovalidate request validators in validators.ts (default: false)
+  --json-schema <mode>          Generate JSON Schema: bundle (schema.json)|perMessage (json-schema/*.json)
   --date-type <type>            Type for dates: Date|string (default: Date)
   --bigint-type <type>          Type for bigints: number|bigint|string (default: number)
+  --enum-style <style>          Enum output: union|enum|const (default: union)
+  --omit-enum-unspecified       Drop *_UNSPECIFIED zero values from generated enums (default: false)
+  --oneof-style <style>         Oneof output: union|tagged (default: union)
+  --type-naming <strategy>      Type names: auto (package prefix on collision)|qualified (default: auto)
+  --field-naming <strategy>     Field names: original|jsonName|camelCase (default: camelCase)
+  --strict                      Fail on any parse, resolution or generation error (default: false)
+  --include-source-locations    Add @see file.proto:line to generated JSDoc (default: false)
+  --exclude-deprecated          Leave deprecated services, methods, fields and enum values out (default: false)
+  --include-methods <selector>  Only generate matching methods: name glob, package:<glob> or tag:<glob> (repeatable)
+  --exclude-methods <selector>  Leave matching methods out, same selectors (repeatable)
+  --custom-option <name>        Keep a custom method or field option in the parsed schema (repeatable)
   --config <path>               Path to configuration file
   --help                        Show this help message
   --version                     Show version information
@@ -44,7 +80,10 @@ Configuration File:
   You can use a configuration file (proto2fetch.config.js) instead of command line options:
 
   module.exports = {
-    protoPath: './proto',
+    protoPath: ['./proto'],
+    includePaths: ['./third_party'],
+    include: ['**/*.proto'],
+    exclude: ['**/testdata/**'],
     outputDir: './generated',
     baseUrl: 'https://api.example.com',
     packageName: 'my-api-client',
@@ -52,12 +91,29 @@ Configuration File:
     includeComments: true,
     generateFilterBuilders: true,
     generateSortBuilders: true,
+    generateZodSchemas: false,
+    generateValidators: false,
+    jsonSchema: 'bundle',
     dateType: 'Date',
-    bigintType: 'number'
+    bigintType: 'number',
+    enumStyle: 'union',
+    omitEnumUnspecified: false,
+    oneofStyle: 'union',
+    typeNaming: 'auto',
+    fieldNaming: 'camelCase',
+    strict: false,
+    includeSourceLocations: false,
+    excludeDeprecated: false,
+    includeMethods: ['users.v1.UserService', 'tag:billing'],
+    excludeMethods: ['*.Delete*'],
+    customOptions: ['acme.api.rate_limit'],
+    wellKnownTypes: { Duration: 'string' }
   };
 
 Examples:
   proto2fetch --proto-path ./proto --output-dir ./generated
+  proto2fetch --proto-path ./proto -I ./third_party --exclude "internal/**" --output-dir ./generated
+  proto2fetch --descriptor-set ./image.binpb --output-dir ./generated
   proto2fetch --config ./proto2fetch.config.js
   proto2fetch --proto-path ./proto --output-dir ./src/api --base-url https://api.example.com
 `);
@@ -83,7 +139,32 @@ function parseArgs(args: string[]): CLIOptions {
     switch (arg) {
       case '--proto-path':
         if (nextArg) {
-          options.protoPath = nextArg;
+          options.protoPath = [...(options.protoPath || []), nextArg];
+          i++;
+        }
+        break;
+      case '-I':
+      case '--include-path':
+        if (nextArg) {
+          options.includePaths = [...(options.includePaths || []), nextArg];
+          i++;
+        }
+        break;
+      case '--include':
+        if (nextArg) {
+          options.include = [...(options.include || []), nextArg];
+          i++;
+        }
+        break;
+      case '--exclude':
+        if (nextArg) {
+          options.exclude = [...(options.exclude || []), nextArg];
+          i++;
+        }
+        break;
+      case '--descriptor-set':
+        if (nextArg) {
+          options.descriptorSet = nextArg;
           i++;
         }
         break;
@@ -129,6 +210,27 @@ function parseArgs(args: string[]): CLIOptions {
           i++;
         }
         break;
+      case '--generate-zod-schemas':
+        options.generateZodSchemas = nextArg?.toLowerCase() !== 'false';
+        if (nextArg && (nextArg.toLowerCase() === 'true' || nextArg.toLowerCase() === 'false')) {
+          i++;
+        }
+        break;
+      case '--generate-validators':
+        options.generateValidators = nextArg?.toLowerCase() !== 'false';
+        if (nextArg && (nextArg.toLowerCase() === 'true' || nextArg.toLowerCase() === 'false')) {
+          i++;
+        }
+        break;
+      case '--json-schema':
+        if (nextArg === 'bundle' || nextArg === 'perMessage') {
+          options.jsonSchema = nextArg;
+          i++;
+        } else {
+          console.error('Error: --json-schema must be either "bundle" or "perMessage"');
+          process.exit(1);
+        }
+        break;
       case '--date-type':
         if (nextArg === 'Date' || nextArg === 'string') {
           options.dateType = nextArg;
@@ -147,6 +249,84 @@ function parseArgs(args: string[]): CLIOptions {
           process.exit(1);
         }
         break;
+      case '--enum-style':
+        if (nextArg === 'union' || nextArg === 'enum' || nextArg === 'const') {
+          options.enumStyle = nextArg;
+          i++;
+        } else {
+          console.error('Error: --enum-style must be "union", "enum", or "const"');
+          process.exit(1);
+        }
+        break;
+      case '--omit-enum-unspecified':
+        options.omitEnumUnspecified = nextArg?.toLowerCase() !== 'false';
+        if (nextArg && (nextArg.toLowerCase() === 'true' || nextArg.toLowerCase() === 'false')) {
+          i++;
+        }
+        break;
+      case '--oneof-style':
+        if (nextArg === 'union' || nextArg === 'tagged') {
+          options.oneofStyle = nextArg;
+          i++;
+        } else {
+          console.error('Error: --oneof-style must be either "union" or "tagged"');
+          process.exit(1);
+        }
+        break;
+      case '--type-naming':
+        if (nextArg === 'auto' || nextArg === 'qualified') {
+          options.typeNaming = nextArg;
+          i++;
+        } else {
+          console.error('Error: --type-naming must be either "auto" or "qualified"');
+          process.exit(1);
+        }
+        break;
+      case '--field-naming':
+        if (nextArg === 'original' || nextArg === 'jsonName' || nextArg === 'camelCase') {
+          options.fieldNaming = nextArg;
+          i++;
+        } else {
+          console.error('Error: --field-naming must be one of "original", "jsonName" or "camelCase"');
+          process.exit(1);
+        }
+        break;
+      case '--strict':
+        options.strict = nextArg?.toLowerCase() !== 'false';
+        if (nextArg && (nextArg.toLowerCase() === 'true' || nextArg.toLowerCase() === 'false')) {
+          i++;
+        }
+        break;
+      case '--include-source-locations':
+        options.includeSourceLocations = nextArg?.toLowerCase() !== 'false';
+        if (nextArg && (nextArg.toLowerCase() === 'true' || nextArg.toLowerCase() === 'false')) {
+          i++;
+        }
+        break;
+      case '--exclude-deprecated':
+        options.excludeDeprecated = nextArg?.toLowerCase() !== 'false';
+        if (nextArg && (nextArg.toLowerCase() === 'true' || nextArg.toLowerCase() === 'false')) {
+          i++;
+        }
+        break;
+      case '--include-methods':
+        if (nextArg) {
+          options.includeMethods = [...(options.includeMethods || []), nextArg];
+          i++;
+        }
+        break;
+      case '--exclude-methods':
+        if (nextArg) {
+          options.excludeMethods = [...(options.excludeMethods || []), nextArg];
+          i++;
+        }
+        break;
+      case '--custom-option':
+        if (nextArg) {
+          options.customOptions = [...(options.customOptions || []), nextArg];
+          i++;
+        }
+        break;
       case '--config':
         if (nextArg) {
           options.config = nextArg;
@@ -213,8 +393,9 @@ function findDefaultConfig(): string | null {
 }
 
 function validateOptions(options: GeneratorOptions): void {
-  if (!options.protoPath) {
-    console.error('Error: --proto-path is required');
+  const protoPaths = ([] as string[]).concat(options.protoPath).filter(Boolean);
+  if (protoPaths.length === 0 && !options.descriptorSet) {
+    console.error('Error: --proto-path or --descriptor-set is required');
     console.error('Use --help to see available options.');
     process.exit(1);
   }
@@ -225,15 +406,25 @@ function validateOptions(options: GeneratorOptions): void {
     process.exit(1);
   }
   
-  if (!fs.existsSync(options.protoPath)) {
-    console.error(`Error: Proto path does not exist: ${options.protoPath}`);
-    process.exit(1);
+  if (options.descriptorSet) {
+    if (typeof options.descriptorSet === 'string' && !fs.existsSync(options.descriptorSet)) {
+      console.error(`Error: Descriptor set does not exist: ${options.descriptorSet}`);
+      process.exit(1);
+    }
+    return;
   }
   
-  const stat = fs.statSync(options.protoPath);
-  if (!stat.isDirectory()) {
-    console.error(`Error: Proto path is not a directory: ${options.protoPath}`);
-    process.exit(1);
+  for (const protoPath of [...protoPaths, ...(options.includePaths || [])]) {
+    if (!fs.existsSync(protoPath)) {
+      console.error(`Error: Proto path does not exist: ${protoPath}`);
+      process.exit(1);
+    }
+    
+    const stat = fs.statSync(protoPath);
+    if (!stat.isDirectory()) {
+      console.error(`Error: Proto path is not a directory: ${protoPath}`);
+      process.exit(1);
+    }
   }
 }
 
@@ -270,6 +461,10 @@ async function main(): Promise<void> {
   // Merge CLI options with config (CLI options take precedence)
   const options: GeneratorOptions = {
     protoPath: cliOptions.protoPath || config.protoPath || '',
+    includePaths: cliOptions.includePaths || config.includePaths,
+    include: cliOptions.include || config.include,
+    exclude: cliOptions.exclude || config.exclude,
+    descriptorSet: cliOptions.descriptorSet || config.descriptorSet,
     outputDir: cliOptions.outputDir || config.outputDir || './generated',
     baseUrl: cliOptions.baseUrl || config.baseUrl || '',
     packageName: cliOptions.packageName || config.packageName,
@@ -277,8 +472,23 @@ async function main(): Promise<void> {
     includeComments: cliOptions.includeComments ?? config.includeComments ?? true,
     generateFilterBuilders: cliOptions.generateFilterBuilders ?? config.generateFilterBuilders ?? true,
     generateSortBuilders: cliOptions.generateSortBuilders ?? config.generateSortBuilders ?? true,
+    generateZodSchemas: cliOptions.generateZodSchemas ?? config.generateZodSchemas ?? false,
+    generateValidators: cliOptions.generateValidators ?? config.generateValidators ?? false,
+    jsonSchema: cliOptions.jsonSchema || config.jsonSchema,
     dateType: cliOptions.dateType || config.dateType || 'Date',
-    bigintType: cliOptions.bigintType || config.bigintType || 'number'
+    bigintType: cliOptions.bigintType || config.bigintType || 'number',
+    enumStyle: cliOptions.enumStyle || config.enumStyle || 'union',
+    omitEnumUnspecified: cliOptions.omitEnumUnspecified ?? config.omitEnumUnspecified ?? false,
+    oneofStyle: cliOptions.oneofStyle || config.oneofStyle || 'union',
+    typeNaming: cliOptions.typeNaming || config.typeNaming || 'auto',
+    fieldNaming: cliOptions.fieldNaming || config.fieldNaming || 'camelCase',
+    strict: cliOptions.strict ?? config.strict ?? false,
+    includeSourceLocations: cliOptions.includeSourceLocations ?? config.includeSourceLocations ?? false,
+    excludeDeprecated: cliOptions.excludeDeprecated ?? config.excludeDeprecated ?? false,
+    includeMethods: cliOptions.includeMethods || config.includeMethods,
+    excludeMethods: cliOptions.excludeMethods || config.excludeMethods,
+    customOptions: cliOptions.customOptions || config.customOptions,
+    wellKnownTypes: config.wellKnownTypes
   };
   
   // Validate options
@@ -288,7 +498,12 @@ async function main(): Promise<void> {
     // Run the generator
     await generate(options);
   } catch (error) {
-    console.error('❌ Generation failed:', error);
+    if (error instanceof DiagnosticsError) {
+      console.error(error.message);
+      console.error('❌ Generation failed in strict mode');
+    } else {
+      console.error('❌ Generation failed:', error);
+    }
     process.exit(1);
   }
 }
@@ -0,0 +1,50 @@
+import { GOOGLE_API_PROTOS } from './google-api.js';
+import { GOOGLE_PROTOBUF_PROTOS } from './google-protobuf.js';
+import { OPENAPIV2_PROTOS } from './openapiv2.js';
+import { VALIDATE_PROTOS } from './validate.js';
+
+/**
+ * Virtual include path the bundled protos are resolved under
+ */
+export const BUNDLED_PROTO_ROOT = 'proto2fetch:';
+
+/**
+ * Annotation protos shipped with proto2fetch, keyed by import path
+ */
+export const BUNDLED_PROTOS: Readonly<Record<string, string>> = {
+  ...GOOGLE_PROTOBUF_PROTOS,
+  ...GOOGLE_API_PROTOS,
+  ...OPENAPIV2_PROTOS,
+  ...VALIDATE_PROTOS
+};
+
+/**
+ * Packages declared by the bundled protos; their types are never generated
+ */
+export const BUNDLED_PACKAGES = [
+  'google.protobuf',
+  'google.api',
+  'grpc.gateway.protoc_gen_openapiv2.options',
+  'buf.validate',
+  'validate'
+];
+
+/**
+ * Virtual file name of a bundled import, or undefined if the import is not bundled
+ */
+export function resolveBundledProto(importPath: string): string | undefined {
+  return importPath in BUNDLED_PROTOS ? `${BUNDLED_PROTO_ROOT}${importPath}` : undefined;
+}
+
+/**
+ * Source of a virtual file name returned by `resolveBundledProto`
+ */
+export function readBundledProto(fileName: string): string | undefined {
+  return fileName.startsWith(BUNDLED_PROTO_ROOT)
+    ? BUNDLED_PROTOS[fileName.slice(BUNDLED_PROTO_ROOT.length)]
+    : undefined;
+}
+
+export function isBundledPackage(pkg: string | undefined): boolean {
+  return !!pkg && BUNDLED_PACKAGES.some(bundled => pkg === bundled || pkg.startsWith(`${bundled}.`));
+}
@@ -2,8 +2,39 @@ import type {
   ParsedSchema,
   ProtoService,
   ProtoMethod,
+  ProtoMessage,
   ClientGeneratorOptions
 } from '../types/index.js';
+import type { OneofDescriptors, OneofMessageDescriptor } from '../runtime/oneof.js';
+import type { ValidationRules } from '../runtime/validation.js';
+import { TypeNameResolver, dependentTypeKeys } from './type-names.js';
+import { parsePathTemplate } from './path-template.js';
+import type { PathTemplate } from './path-template.js';
+import { WellKnownTypeMapper, wellKnownTypeName } from './well-known-types.js';
+import { warnDiagnostic } from './diagnostics.js';
+import { formatSourceLocation } from './source-positions.js';
+import { inputVariantKeys } from './field-behavior.js';
+import { deprecatedTag } from './deprecation.js';
+import { renderJsDoc, renderLineComment } from './jsdoc.js';
+import { fieldPropertyName } from './field-names.js';
+import type { NamedField } from './field-names.js';
+import { buildValidationRules } from './validator-generator.js';
+
+interface GenerationContext {
+  /** Messages keyed by their fully-qualified name */
+  messages: Map<string, ProtoMessage>;
+  typeNames: TypeNameResolver;
+  wellKnownTypes: WellKnownTypeMapper;
+  /** Generated client method name for every proto method */
+  methodNames: Map<ProtoMethod, string>;
+  oneofDescriptors: OneofDescriptors;
+  /** Constraints of the messages in `validators.ts`, empty unless validators are generated */
+  validationRules: ValidationRules;
+  /** Messages with a separate `${Name}Input` type, see field-behavior.ts */
+  inputVariants: Set<string>;
+  /** Runtime helpers referenced by the generated methods */
+  runtimeImports: Set<string>;
+}
 
 export class APIClientGenerator {
   // eslint-disable-next-line no-unused-vars
@@ -11,16 +42,37 @@ export class APIClientGenerator {
 
   generateClient(schema: ParsedSchema): string {
     let output = this.generateHeader();
-    
-    // Import statements
-    output += this.generateImports();
-    output += '\n';
 
     // Generate main client class
     const allServices = schema.files.flatMap(file => file.services);
     // Remove duplicate services based on service name and methods
     const uniqueServices = this.removeDuplicateServices(allServices);
-    output += this.generateClientClass(uniqueServices);
+    const typeNames = this.createTypeNameResolver(schema);
+    const messages = new Map(schema.files.flatMap(file => file.messages).map(m => [TypeNameResolver.keyOf(m), m]));
+    const context: GenerationContext = {
+      messages,
+      typeNames,
+      wellKnownTypes: new WellKnownTypeMapper(this.options.wellKnownTypes),
+      methodNames: this.assignMethodNames(uniqueServices),
+      oneofDescriptors: this.options.oneofStyle === 'tagged' ? this.buildOneofDescriptors(messages, typeNames) : {},
+      validationRules: this.options.generateValidators
+        ? buildValidationRules(Array.from(messages.values()), typeNames, this.options, schema.files.flatMap(file => file.enums || []))
+        : {},
+      inputVariants: inputVariantKeys(Array.from(messages.values())),
+      runtimeImports: new Set()
+    };
+    const clientClass = this.generateClientClass(uniqueServices, schema, context);
+    
+    // Import statements depend on which runtime helpers the methods use
+    output += this.generateImports(context);
+    output += '\n';
+
+    if (context.runtimeImports.has('packOneofs') || context.runtimeImports.has('unpackOneofs')) {
+      output += this.generateOneofDescriptorTable(context.oneofDescriptors);
+      output += '\n';
+    }
+
+    output += clientClass;
     
     return output;
   }
@@ -32,36 +84,85 @@ export class APIClientGenerator {
 `;
   }
 
-  private generateImports(): string {
-    return `import type { APIClient, RequestOptions, AuthProvider } from 'proto2fetch/runtime';
-import { createAPIClient } from 'proto2fetch/runtime';
-import * as Types from './types.js';
+  private generateImports(context: GenerationContext): string {
+    const typeImports = ['APIClient', 'RequestOptions', 'AuthProvider'];
+    const valueImports = ['createAPIClient', ...Array.from(context.runtimeImports).sort()];
+
+    if (valueImports.includes('packOneofs') || valueImports.includes('unpackOneofs')) {
+      typeImports.push('OneofDescriptors');
+    }
 
+    let output = `import type { ${typeImports.join(', ')} } from 'proto2fetch/runtime';
+import { ${valueImports.join(', ')} } from 'proto2fetch/runtime';
+import * as Types from './types.js';
 `;
+    if (valueImports.includes('assertValid')) {
+      output += `import { validationRules } from './validators.js';\n`;
+    }
+
+    return output + '\n';
   }
 
-  private generateClientClass(services: ProtoService[]): string {
+  private generateOneofDescriptorTable(descriptors: OneofDescriptors): string {
+    let output = 'const oneofDescriptors: OneofDescriptors = {\n';
+
+    output += Object.entries(descriptors).map(([typeName, descriptor]) => {
+      const parts: string[] = [];
+      if (descriptor.oneofs) {
+        const oneofs = Object.entries(descriptor.oneofs)
+          .map(([name, members]) => `${name}: [${members.map(m => `'${m}'`).join(', ')}]`);
+        parts.push(`oneofs: { ${oneofs.join(', ')} }`);
+      }
+      if (descriptor.fields) {
+        const fields = Object.entries(descriptor.fields).map(([name, type]) => `${name}: '${type}'`);
+        parts.push(`fields: { ${fields.join(', ')} }`);
+      }
+      if (descriptor.mapFields) {
+        const mapFields = Object.entries(descriptor.mapFields).map(([name, type]) => `${name}: '${type}'`);
+        parts.push(`mapFields: { ${mapFields.join(', ')} }`);
+      }
+      return `  ${typeName}: { ${parts.join(', ')} }`;
+    }).join(',\n');
+
+    output += '\n};\n';
+
+    return output;
+  }
+
+  private generateClientClass(services: ProtoService[], schema: ParsedSchema, context: GenerationContext): string {
     let output = '';
     
     if (this.options.generateComments) {
-      output += `/**\n * ${this.options.clientName} - Auto-generated API client\n */\n`;
+      const paragraphs = [`${this.options.clientName} - Auto-generated API client`];
+      if (schema.title) {
+        paragraphs.push(`${schema.title}${schema.version ? ` (version ${schema.version})` : ''}`);
+      }
+      if (schema.description) {
+        paragraphs.push(schema.description);
+      }
+      output += renderJsDoc({ description: paragraphs.join('\n\n') });
     }
     
+    // Generate method for each service
+    const serviceMethods = services.map(service => this.generateServiceMethods(service, context)).join('');
+    const validatesRequests = context.runtimeImports.has('assertValid');
+
     output += `export class ${this.options.clientName} {\n`;
-    output += `  private client: APIClient;\n\n`;
+    output += `  private client: APIClient;\n`;
+    if (validatesRequests) {
+      output += `  private validateRequests: boolean;\n`;
+    }
+    output += '\n';
     
     // Constructor
-    output += this.generateConstructor();
+    output += this.generateConstructor(schema, validatesRequests);
     output += '\n';
 
     // Authentication management methods
     output += this.generateAuthMethods();
     output += '\n';
 
-    // Generate method for each service
-    for (const service of services) {
-      output += this.generateServiceMethods(service);
-    }
+    output += serviceMethods;
 
     output += '}\n\n';
 
@@ -71,13 +172,18 @@ import * as Types from './types.js';
     return output;
   }
 
-  private generateConstructor(): string {
+  private generateConstructor(schema: ParsedSchema, validatesRequests: boolean): string {
+    // An explicit base URL wins over the host declared in the proto files
+    const baseUrl = this.options.baseUrl && this.options.baseUrl.trim() ? this.options.baseUrl : schema.baseUrl;
     let output = `  constructor(config?: Partial<import('proto2fetch/runtime').APIClientConfig>) {\n`;
-    output += `    const defaultBaseUrl = ${this.options.baseUrl && this.options.baseUrl.trim() ? `'${this.options.baseUrl}'` : '`${typeof window !== \'undefined\' ? window.location.origin : \'http://localhost:3000\'}`'};\n`;
+    output += `    const defaultBaseUrl = ${baseUrl ? `'${baseUrl}'` : '`${typeof window !== \'undefined\' ? window.location.origin : \'http://localhost:3000\'}`'};\n`;
     output += `    this.client = createAPIClient({\n`;
     output += `      baseUrl: defaultBaseUrl,\n`;
     output += `      ...config\n`;
     output += `    });\n`;
+    if (validatesRequests) {
+      output += `    this.validateRequests = config?.validateRequests ?? false;\n`;
+    }
     output += `  }\n`;
     
     return output;
@@ -110,48 +216,78 @@ import * as Types from './types.js';
     return output;
   }
 
-  private generateServiceMethods(service: ProtoService): string {
+  private generateServiceMethods(service: ProtoService, context: GenerationContext): string {
     let output = '';
     
     if (this.options.generateComments && service.description) {
-      output += `\n  // ${service.description}\n`;
+      output += `\n${renderLineComment(service.description, '  ')}`;
     }
 
     for (const method of service.methods) {
-      output += this.generateMethod(method);
-      output += '\n';
+      const methodName = context.methodNames.get(method) ?? this.toCamelCase(method.name);
+      // Every method of a deprecated service is deprecated as well
+      const generated = service.deprecated ? { ...method, deprecated: true } : method;
+      output += this.generateMethodOrReport(generated, methodName, service, context);
+
+      // Every additional binding becomes its own method calling the alternative route
+      method.additionalBindings?.forEach((binding, index) => {
+        const bindingMethod: ProtoMethod = { ...generated, ...binding, additionalBindings: undefined };
+        output += this.generateMethodOrReport(bindingMethod, `${methodName}Binding${index + 1}`, service, context);
+      });
     }
 
     return output;
   }
 
-  private generateMethod(method: ProtoMethod): string {
+  /**
+   * A method whose http rule cannot be generated is skipped and reported instead of failing the client
+   */
+  private generateMethodOrReport(
+    method: ProtoMethod,
+    methodName: string,
+    service: ProtoService,
+    context: GenerationContext
+  ): string {
+    try {
+      return this.generateMethod(method, methodName, context) + '\n';
+    } catch (error) {
+      (this.options.onDiagnostic || warnDiagnostic)({
+        severity: 'error',
+        message: `Skipped ${service.fullName || service.name}.${method.name}: ${error instanceof Error ? error.message : error}`
+      });
+      return '';
+    }
+  }
+
+  private generateMethod(method: ProtoMethod, methodName: string, context: GenerationContext): string {
     let output = '';
     
     if (this.options.generateComments) {
-      output += `  /**\n`;
-      if (method.description) {
-        output += `   * ${method.description}\n`;
-      }
+      const tags: string[] = [];
       if (method.summary) {
-        output += `   * @summary ${method.summary}\n`;
+        tags.push(`@summary ${method.summary}`);
       }
       if (method.tags && method.tags.length > 0) {
-        output += `   * @tags ${method.tags.join(', ')}\n`;
+        tags.push(`@tags ${method.tags.join(', ')}`);
+      }
+      if (method.deprecated) {
+        tags.push(deprecatedTag(method.description));
       }
-      output += `   */\n`;
+      if (this.options.includeSourceLocations && method.location) {
+        tags.push(`@see ${formatSourceLocation(method.location)}`);
+      }
+      output += renderJsDoc({ ...method, tags, exampleTitle: 'Response' }, '  ');
     }
     
-    const methodName = this.toCamelCase(method.name);
-    const inputType = `Types.${method.inputType}`;
-    const outputType = `Types.${method.outputType}`;
+    const inputType = this.requestType(method, context);
+    const outputType = this.responseType(method, context);
     
     // Determine if method has path parameters
-    const pathParams = this.extractPathParams(method.httpPath);
-    const hasPathParams = pathParams.length > 0;
+    const pathTemplate = parsePathTemplate(method.httpPath);
+    const hasPathParams = pathTemplate.variables.length > 0;
     
     // Generate method signature
-    if (method.httpMethod === 'GET' && method.inputType === 'Empty') {
+    if (method.httpMethod === 'GET' && this.isEmptyType(method.inputType)) {
       // GET method with no parameters
       output += `  async ${methodName}(options?: RequestOptions): Promise<${outputType}> {\n`;
     } else if (hasPathParams) {
@@ -163,59 +299,202 @@ import * as Types from './types.js';
     }
 
     // Method body
-    output += this.generateMethodBody(method, pathParams);
+    output += this.generateMethodBody(method, pathTemplate, context);
     output += `  }\n`;
     
     return output;
   }
 
-  private generateMethodBody(method: ProtoMethod, pathParams: string[]): string {
+  private generateMethodBody(method: ProtoMethod, pathTemplate: PathTemplate, context: GenerationContext): string {
     let output = '';
+    let request = 'request';
+
+    const inputType = this.typeName(method.inputType, context);
+    if (context.validationRules[inputType] && !this.isEmptyType(method.inputType)) {
+      context.runtimeImports.add('assertValid');
+      output += `    if (this.validateRequests) {\n`;
+      output += `      assertValid(request, '${inputType}', validationRules);\n`;
+      output += `    }\n`;
+    }
+
+    // Tagged oneofs have to be converted back to plain member fields before sending
+    if (context.oneofDescriptors[inputType] && !this.isEmptyType(method.inputType)) {
+      context.runtimeImports.add('packOneofs');
+      output += `    const wireRequest = packOneofs(request, '${inputType}', oneofDescriptors);\n`;
+      request = 'wireRequest';
+    }
     
     // Prepare path with parameter substitution
-    let path = method.httpPath;
+    const segments = [...pathTemplate.segments];
     
     // Remove leading slash to make it compatible with ky's prefixUrl
-    if (path.startsWith('/')) {
-      path = path.slice(1);
+    if (typeof segments[0] === 'string') {
+      segments[0] = segments[0].replace(/^\//, '');
     }
     
-    if (pathParams.length > 0) {
-      for (const param of pathParams) {
-        const camelParam = this.toCamelCase(param);
-        path = path.replace(`{${param}}`, `\${request.${camelParam}}`);
-      }
+    if (pathTemplate.variables.length > 0) {
+      context.runtimeImports.add('encodePathVariable');
+      const path = segments.map(segment => {
+        if (typeof segment === 'string') {
+          return segment;
+        }
+        const pattern = segment.pattern ? `, '${segment.pattern}'` : '';
+        return `\${encodePathVariable(${this.fieldAccessor(request, method.inputType, segment.fieldPath, context)}, '${segment.fieldPath}'${pattern})}`;
+      }).join('');
       output += `    const path = \`${path}\`;\n`;
     } else {
-      output += `    const path = '${path}';\n`;
-    }
-
-    // Prepare request data
-    if (method.httpMethod === 'GET') {
-      if (method.inputType !== 'Empty') {
-        // For GET requests, convert request object to query parameters
-        output += `    const searchParams = this.client.objectToSearchParams(request);\n`;
-        output += `    return this.client.request<Types.${method.outputType}>('${method.httpMethod}', path, undefined, {\n`;
-        output += `      searchParams,\n`;
-        output += `      ...options\n`;
-        output += `    });\n`;
+      output += `    const path = '${segments.join('')}';\n`;
+    }
+
+    // Prepare request data; without an http rule GET sends a query string and other verbs the whole request
+    const body = method.body ?? (method.httpMethod === 'GET' ? '' : '*');
+    const boundFields = pathTemplate.variables.map(variable => this.propertyPath(method.inputType, variable.fieldPath, context));
+    if (body === '*') {
+      if (boundFields.length > 0) {
+        // Remove path parameters from request body
+        output += this.generateOmittedFields('body', request, boundFields, context);
+        output += this.generateRequestCall(method, `'${method.httpMethod}', path, body, options`, context);
       } else {
-        output += `    return this.client.request<Types.${method.outputType}>('${method.httpMethod}', path, undefined, options);\n`;
+        output += this.generateRequestCall(method, `'${method.httpMethod}', path, ${request}, options`, context);
       }
+    } else if (this.isEmptyType(method.inputType)) {
+      output += this.generateRequestCall(method, `'${method.httpMethod}', path, undefined, options`, context);
     } else {
-      // For POST/PUT/DELETE requests, send request as body
-      if (pathParams.length > 0) {
-        // Remove path parameters from request body
-        output += `    const { ${pathParams.map(p => this.toCamelCase(p)).join(', ')}, ...body } = request;\n`;
-        output += `    return this.client.request<Types.${method.outputType}>('${method.httpMethod}', path, body, options);\n`;
-      } else {
-        output += `    return this.client.request<Types.${method.outputType}>('${method.httpMethod}', path, request, options);\n`;
+      let bodyArg = 'undefined';
+      const bodyField = body ? this.propertyPath(method.inputType, body, context) : undefined;
+      const omittedFields = boundFields.filter(field => !bodyField || !field.startsWith(`${bodyField}.`));
+      if (bodyField) {
+        // Path parameters inside the body field are not sent twice
+        const boundBodyFields = boundFields
+          .filter(field => field.startsWith(`${bodyField}.`))
+          .map(field => field.slice(bodyField.length + 1));
+        if (boundBodyFields.length > 0) {
+          output += this.generateOmittedFields('body', `${request}.${bodyField}`, boundBodyFields, context);
+          bodyArg = 'body';
+        } else {
+          bodyArg = `${request}.${bodyField}`;
+        }
+        omittedFields.push(bodyField);
       }
+
+      // Fields that are bound to neither the path nor the body are sent as query parameters
+      let query = request;
+      if (method.body !== undefined && omittedFields.length > 0) {
+        output += this.generateOmittedFields('query', request, omittedFields, context);
+        query = 'query';
+      }
+      const mapFields = this.collectMapFieldPaths(method.inputType, context);
+      const searchParamsOptions = mapFields.length > 0
+        ? `, { mapFields: [${mapFields.map(f => `'${f}'`).join(', ')}] }`
+        : '';
+      output += `    const searchParams = this.client.objectToSearchParams(${query}${searchParamsOptions});\n`;
+      output += this.generateRequestCall(method, `'${method.httpMethod}', path, ${bodyArg}, {\n      searchParams,\n      ...options\n    }`, context);
+    }
+
+    return output;
+  }
+
+  private generateRequestCall(method: ProtoMethod, args: string, context: GenerationContext): string {
+    const outputType = this.responseType(method, context);
+    const payloadType = this.responsePayloadType(method, context);
+
+    if (!payloadType || !context.oneofDescriptors[payloadType]) {
+      return `    return this.client.request<${outputType}>(${args});\n`;
     }
 
+    // Responses carry plain member fields that have to be folded into tagged oneofs
+    context.runtimeImports.add('unpackOneofs');
+    let output = `    const response = await this.client.request(${args});\n`;
+    output += `    return unpackOneofs<${outputType}>(response, '${payloadType}', oneofDescriptors);\n`;
     return output;
   }
 
+  /**
+   * Resource messages sent as the whole request are typed by their input variant
+   */
+  private requestType(method: ProtoMethod, context: GenerationContext): string {
+    const inputType = this.typeReference(method.inputType, context);
+    const key = context.typeNames.keyOf(method.inputType);
+    return key && context.inputVariants.has(key) ? `${inputType}Input` : inputType;
+  }
+
+  /**
+   * Type returned by a method; with `response_body` only that response field is returned
+   */
+  private responseType(method: ProtoMethod, context: GenerationContext): string {
+    const outputType = this.typeReference(method.outputType, context);
+    return method.responseBody
+      ? `${outputType}['${this.propertyPath(method.outputType, method.responseBody, context)}']`
+      : outputType;
+  }
+
+  /**
+   * Message type of the HTTP response body, if it is a single message
+   */
+  private responsePayloadType(method: ProtoMethod, context: GenerationContext): string | undefined {
+    if (!method.responseBody) {
+      return this.typeName(method.outputType, context);
+    }
+
+    const field = this.findMessage(method.outputType, context)?.fields.find(f => f.name === method.responseBody);
+    return field && !field.repeated && !field.keyType ? this.typeName(field.type, context) : undefined;
+  }
+
+  private createTypeNameResolver(schema: ParsedSchema): TypeNameResolver {
+    return new TypeNameResolver([
+      ...schema.files.flatMap(file => file.enums || []),
+      ...schema.files.flatMap(file => file.messages)
+    ], this.options.typeNaming);
+  }
+
+  private typeName(typeRef: string, context: GenerationContext): string {
+    return context.typeNames.resolve(typeRef) ?? typeRef;
+  }
+
+  /**
+   * Type expression for a method's request or response; well-known types are inlined
+   */
+  private typeReference(typeRef: string, context: GenerationContext): string {
+    return context.wellKnownTypes.resolve(typeRef) ?? `Types.${this.typeName(typeRef, context)}`;
+  }
+
+  private isEmptyType(typeRef: string): boolean {
+    return typeRef === 'Empty' || wellKnownTypeName(typeRef) === 'Empty';
+  }
+
+  private findMessage(typeRef: string, context: GenerationContext): ProtoMessage | undefined {
+    const key = context.typeNames.keyOf(typeRef);
+    return key ? context.messages.get(key) : undefined;
+  }
+
+  /**
+   * Client methods share one namespace, so methods whose name is used by more
+   * than one service are prefixed with their (collision-free) service name
+   */
+  private assignMethodNames(services: ProtoService[]): Map<ProtoMethod, string> {
+    const serviceNames = new TypeNameResolver(services, this.options.typeNaming);
+    const owners = new Map<string, Set<ProtoService>>();
+
+    for (const service of services) {
+      for (const method of service.methods) {
+        const name = this.toCamelCase(method.name);
+        owners.set(name, (owners.get(name) || new Set()).add(service));
+      }
+    }
+
+    const methodNames = new Map<ProtoMethod, string>();
+    for (const service of services) {
+      for (const method of service.methods) {
+        const name = this.toCamelCase(method.name);
+        methodNames.set(method, owners.get(name)!.size > 1
+          ? this.toCamelCase(`${serviceNames.nameOf(service)}${method.name}`)
+          : name);
+      }
+    }
+
+    return methodNames;
+  }
+
   private generateFactoryFunction(): string {
     let output = `/**\n * Create a new instance of ${this.options.clientName}\n */\n`;
     output += `export function create${this.options.clientName}(config?: Partial<import('proto2fetch/runtime').APIClientConfig>): ${this.options.clientName} {\n`;
@@ -228,11 +507,115 @@ import * as Types from './types.js';
     return output;
   }
 
-  private extractPathParams(path: string): string[] {
-    const matches = path.match(/\{([^}]+)\}/g);
-    if (!matches) return [];
-    
-    return matches.map(match => match.slice(1, -1)); // Remove { and }
+  /**
+   * Declare `target` as a copy of `source` without the given field paths
+   */
+  private generateOmittedFields(target: string, source: string, fieldPaths: string[], context: GenerationContext): string {
+    if (!source.includes('.') && fieldPaths.every(fieldPath => !fieldPath.includes('.'))) {
+      return `    const { ${fieldPaths.join(', ')}, ...${target} } = ${source};\n`;
+    }
+
+    // Nested fields cannot be removed by destructuring
+    context.runtimeImports.add('omitFields');
+    return `    const ${target} = omitFields(${source}, [${fieldPaths.map(f => `'${f}'`).join(', ')}]);\n`;
+  }
+
+  /**
+   * Expression reading a (possibly nested) proto field path from a request
+   */
+  private fieldAccessor(request: string, typeRef: string, fieldPath: string, context: GenerationContext): string {
+    return `${request}.${this.propertyPath(typeRef, fieldPath, context).split('.').join('?.')}`;
+  }
+
+  /**
+   * Property path of a (possibly nested) proto field path of a message, following the
+   * field naming strategy; unknown fields are named as if they had no `json_name`
+   */
+  private propertyPath(typeRef: string, fieldPath: string, context: GenerationContext): string {
+    let message = this.findMessage(typeRef, context);
+    return fieldPath
+      .split('.')
+      .map(part => {
+        const field = message?.fields.find(candidate => candidate.name === part);
+        message = field ? this.findMessage(field.type, context) : undefined;
+        return this.propertyName(field || { name: part });
+      })
+      .join('.');
+  }
+
+  private propertyName(field: NamedField): string {
+    return fieldPropertyName(field, this.options.fieldNaming);
+  }
+
+  /**
+   * Describe every message that contains oneofs, directly or through nested
+   * message fields, so the runtime can translate tagged oneofs
+   */
+  private buildOneofDescriptors(messages: Map<string, ProtoMessage>, typeNames: TypeNameResolver): OneofDescriptors {
+    const hasOneofs = (message: ProtoMessage): boolean =>
+      (message.oneofs || []).some(oneof => oneof.fields.length > 0);
+
+    const affected = dependentTypeKeys(Array.from(messages.values()), typeNames, hasOneofs);
+    const isAffected = (typeRef: string): boolean => affected.has(typeNames.keyOf(typeRef) ?? typeRef);
+
+    const descriptors: OneofDescriptors = {};
+
+    for (const key of affected) {
+      const message = messages.get(key)!;
+      const descriptor: OneofMessageDescriptor = {};
+
+      for (const oneof of message.oneofs || []) {
+        if (oneof.fields.length > 0) {
+          descriptor.oneofs = descriptor.oneofs || {};
+          descriptor.oneofs[this.propertyName(oneof)] = oneof.fields.map(name =>
+            this.propertyName(message.fields.find(field => field.name === name) || { name })
+          );
+        }
+      }
+
+      for (const field of message.fields) {
+        if (isAffected(field.type)) {
+          const target = field.keyType ? 'mapFields' : 'fields';
+          descriptor[target] = { ...descriptor[target], [this.propertyName(field)]: typeNames.resolve(field.type)! };
+        }
+      }
+
+      descriptors[typeNames.nameOf(message)] = descriptor;
+    }
+
+    return descriptors;
+  }
+
+  /**
+   * Collect dotted paths of map fields reachable through singular message fields,
+   * so the runtime can serialize them as `field[key]=value` query parameters
+   */
+  private collectMapFieldPaths(
+    typeRef: string,
+    context: GenerationContext,
+    prefix: string = '',
+    visiting: Set<ProtoMessage> = new Set()
+  ): string[] {
+    const message = this.findMessage(typeRef, context);
+    if (!message || visiting.has(message)) {
+      return [];
+    }
+
+    visiting.add(message);
+    const paths: string[] = [];
+
+    for (const field of message.fields) {
+      const fieldPath = `${prefix}${this.propertyName(field)}`;
+
+      if (field.keyType) {
+        paths.push(fieldPath);
+      } else if (!field.repeated) {
+        paths.push(...this.collectMapFieldPaths(field.type, context, `${fieldPath}.`, visiting));
+      }
+    }
+
+    visiting.delete(message);
+    return paths;
   }
 
   private toCamelCase(str: string): string {
@@ -243,7 +626,7 @@ import * as Types from './types.js';
     const uniqueServicesMap = new Map<string, ProtoService>();
     
     for (const service of services) {
-      const serviceKey = service.name;
+      const serviceKey = TypeNameResolver.keyOf(service);
       const existingService = uniqueServicesMap.get(serviceKey);
       
       if (!existingService) {
@@ -268,18 +651,19 @@ import * as Types from './types.js';
     let output = '\n// Helper methods and builders\n';
     
     const allMessages = schema.files.flatMap(file => file.messages);
+    const typeNames = this.createTypeNameResolver(schema);
     
     // Generate pagination helpers
     output += this.generatePaginationHelpers();
     
     // Generate filter builders if enabled
     if (this.options.generateFilterBuilders) {
-      output += this.generateFilterHelpers(allMessages);
+      output += this.generateFilterHelpers(allMessages, typeNames);
     }
     
     // Generate sort builders if enabled
     if (this.options.generateSortBuilders) {
-      output += this.generateSortHelpers(allMessages);
+      output += this.generateSortHelpers(allMessages, typeNames);
     }
     
     return output;
@@ -311,36 +695,38 @@ export function createPaginatedRequest<TFilter = any, TSort = any>(
 `;
   }
 
-  private generateFilterHelpers(messages: any[]): string {
+  private generateFilterHelpers(messages: ProtoMessage[], typeNames: TypeNameResolver): string {
     let output = '\n// Filter helpers\n';
     
     const filterMessages = messages.filter(m => m.name.includes('Filter'));
     const uniqueFilterMessages = filterMessages.filter((message, index, self) => 
-      index === self.findIndex(m => m.name === message.name)
+      index === self.findIndex(m => TypeNameResolver.keyOf(m) === TypeNameResolver.keyOf(message))
     );
     
     for (const message of uniqueFilterMessages) {
-      const entityName = message.name.replace('Filter', '');
-      output += `\nexport function create${entityName}Filter(): Types.${message.name}Builder {\n`;
-      output += `  return new Types.${message.name}Builder();\n`;
+      const typeName = typeNames.nameOf(message);
+      const entityName = typeName.replace('Filter', '');
+      output += `\nexport function create${entityName}Filter(): Types.${typeName}Builder {\n`;
+      output += `  return new Types.${typeName}Builder();\n`;
       output += `}\n`;
     }
     
     return output;
   }
 
-  private generateSortHelpers(messages: any[]): string {
+  private generateSortHelpers(messages: ProtoMessage[], typeNames: TypeNameResolver): string {
     let output = '\n// Sort helpers\n';
     
     const sortMessages = messages.filter(m => m.name.includes('Sort'));
     const uniqueSortMessages = sortMessages.filter((message, index, self) => 
-      index === self.findIndex(m => m.name === message.name)
+      index === self.findIndex(m => TypeNameResolver.keyOf(m) === TypeNameResolver.keyOf(message))
     );
     
     for (const message of uniqueSortMessages) {
-      const entityName = message.name.replace('Sort', '');
-      output += `\nexport function create${entityName}Sort(): Types.${message.name}Builder {\n`;
-      output += `  return new Types.${message.name}Builder();\n`;
+      const typeName = typeNames.nameOf(message);
+      const entityName = typeName.replace('Sort', '');
+      output += `\nexport function create${entityName}Sort(): Types.${typeName}Builder {\n`;
+      output += `  return new Types.${typeName}Builder();\n`;
       output += `}\n`;
     }
     
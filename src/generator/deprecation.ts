@@ -0,0 +1,72 @@
+import type { ParsedSchema, ProtoEnum, ProtoEnumValue, ProtoMessage } from '../types/index.js';
+import { TypeNameResolver, reachableTypeKeys } from './type-names.js';
+
+/**
+ * JSDoc tag of a deprecated declaration. A comment line in the Go style,
+ * `Deprecated: use display_name instead`, becomes the reason.
+ */
+export function deprecatedTag(description?: string): string {
+  const reason = deprecationReason(description);
+  return reason ? `@deprecated ${reason}` : '@deprecated';
+}
+
+/**
+ * Lines listing the deprecated values of an enum with their reasons, for enum styles
+ * whose members cannot be documented one by one
+ */
+export function deprecatedValuesNote(values: ProtoEnumValue[]): string[] {
+  const deprecated = values.filter(value => value.deprecated);
+  if (deprecated.length === 0) {
+    return [];
+  }
+  return ['Deprecated values:', ...deprecated.map(value => {
+    const reason = deprecationReason(value.description);
+    return reason ? `- \`${value.name}\`: ${reason}` : `- \`${value.name}\``;
+  })];
+}
+
+function deprecationReason(description?: string): string | undefined {
+  return description
+    ?.split('\n')
+    .map(line => /^deprecated\b:?\s*(.*)$/i.exec(line.trim())?.[1])
+    .find(text => text !== undefined);
+}
+
+/**
+ * Copy of a schema without deprecated services, methods, fields and enum values.
+ * Deprecated messages and enums are dropped too, unless something that remains
+ * still refers to them.
+ */
+export function withoutDeprecated(schema: ParsedSchema): ParsedSchema {
+  const files = schema.files.map(file => ({
+    ...file,
+    services: file.services
+      .filter(service => !service.deprecated)
+      .map(service => ({ ...service, methods: service.methods.filter(method => !method.deprecated) })),
+    messages: file.messages.map(message => {
+      const fields = message.fields.filter(field => !field.deprecated);
+      const oneofs = message.oneofs?.map(oneof => ({
+        ...oneof,
+        fields: oneof.fields.filter(name => fields.some(field => field.name === name))
+      }));
+      return { ...message, fields, oneofs };
+    }),
+    enums: file.enums?.map(protoEnum => ({ ...protoEnum, values: protoEnum.values.filter(value => !value.deprecated) }))
+  }));
+
+  // Keep every declaration that is not deprecated, and whatever those and the methods still refer to
+  const declarations: Array<ProtoMessage | ProtoEnum> = files.flatMap(file => [...file.messages, ...(file.enums || [])]);
+  const kept = reachableTypeKeys(declarations, [
+    ...files.flatMap(file => file.services.flatMap(service => service.methods.flatMap(m => [m.inputType, m.outputType]))),
+    ...declarations.filter(declaration => !declaration.deprecated).map(declaration => TypeNameResolver.keyOf(declaration))
+  ]);
+
+  return {
+    ...schema,
+    files: files.map(file => ({
+      ...file,
+      messages: file.messages.filter(message => kept.has(TypeNameResolver.keyOf(message))),
+      enums: file.enums?.filter(protoEnum => kept.has(TypeNameResolver.keyOf(protoEnum)))
+    }))
+  };
+}
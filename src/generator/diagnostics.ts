@@ -0,0 +1,71 @@
+import type { ProtoDiagnostic } from '../types/index.js';
+
+/**
+ * Thrown in strict mode when parsing or generation reported an error
+ */
+export class DiagnosticsError extends Error {
+  override readonly name = 'DiagnosticsError';
+
+  constructor(public readonly diagnostics: ProtoDiagnostic[]) {
+    super(formatDiagnostics(diagnostics));
+  }
+}
+
+/**
+ * `file:line:column - severity: message`, omitting the parts that are unknown
+ */
+export function formatDiagnostic(diagnostic: ProtoDiagnostic): string {
+  const location = formatLocation(diagnostic);
+  return `${location ? `${location} - ` : ''}${diagnostic.severity}: ${diagnostic.message}`;
+}
+
+/**
+ * A report of diagnostics grouped by file, followed by a summary line
+ */
+export function formatDiagnostics(diagnostics: ProtoDiagnostic[]): string {
+  const byFile = new Map<string, ProtoDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    const file = diagnostic.file || '';
+    byFile.set(file, [...(byFile.get(file) || []), diagnostic]);
+  }
+
+  let output = '';
+  for (const [file, fileDiagnostics] of byFile) {
+    output += `${file || '(no file)'}\n`;
+    for (const diagnostic of fileDiagnostics) {
+      const position = diagnostic.line ? `${diagnostic.line}:${diagnostic.column || 1}` : '';
+      output += `  ${position.padEnd(8)}${diagnostic.severity.padEnd(9)}${diagnostic.message}\n`;
+    }
+    output += '\n';
+  }
+
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  output += `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+
+  return output;
+}
+
+/**
+ * Default diagnostic handler
+ */
+export function warnDiagnostic(diagnostic: ProtoDiagnostic): void {
+  console.warn(formatDiagnostic(diagnostic));
+}
+
+/**
+ * Identity of a diagnostic, used to drop duplicates reported once per importing file
+ */
+export function diagnosticKey(diagnostic: ProtoDiagnostic): string {
+  return `${formatLocation(diagnostic)}|${diagnostic.severity}|${diagnostic.message}`;
+}
+
+function formatLocation(diagnostic: ProtoDiagnostic): string {
+  if (!diagnostic.file) {
+    return '';
+  }
+  if (!diagnostic.line) {
+    return diagnostic.file;
+  }
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column || 1}`;
+}
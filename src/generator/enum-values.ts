@@ -0,0 +1,16 @@
+import type { ProtoEnum, ProtoEnumValue } from '../types/index.js';
+
+/**
+ * Proto3 style guides require the zero value to be named `<ENUM>_UNSPECIFIED`
+ */
+export function isUnspecifiedEnumValue(value: Pick<ProtoEnumValue, 'name' | 'number'>): boolean {
+  return value.number === 0 && (value.name === 'UNSPECIFIED' || value.name.endsWith('_UNSPECIFIED'));
+}
+
+/**
+ * The values of an enum that are generated, without the `<ENUM>_UNSPECIFIED` zero value
+ * when `omitUnspecified` is set
+ */
+export function generatedEnumValues(protoEnum: ProtoEnum, omitUnspecified: boolean = false): ProtoEnumValue[] {
+  return protoEnum.values.filter(value => !(omitUnspecified && isUnspecifiedEnumValue(value)));
+}
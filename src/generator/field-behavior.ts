@@ -0,0 +1,97 @@
+import type { FieldBehavior, ProtoField, ProtoMessage, ProtoOneof } from '../types/index.js';
+import { TypeNameResolver } from './type-names.js';
+
+/**
+ * Which side of an API a generated message type describes: `output` for what
+ * the server returns, `input` for what a client sends
+ */
+export type MessageVariant = 'output' | 'input';
+
+export function hasFieldBehavior(field: ProtoField, behavior: FieldBehavior): boolean {
+  return field.behaviors?.includes(behavior) ?? false;
+}
+
+/**
+ * Whether a field exists in the given variant: output-only fields are never
+ * sent and input-only fields are never returned
+ */
+export function isFieldInVariant(field: ProtoField, variant: MessageVariant): boolean {
+  return !hasFieldBehavior(field, variant === 'input' ? 'OUTPUT_ONLY' : 'INPUT_ONLY');
+}
+
+/**
+ * REQUIRED and OPTIONAL field behaviors take precedence over proto presence. In input
+ * types of messages that declare field behaviors, fields not marked REQUIRED may be omitted.
+ */
+export function isOptionalInVariant(message: ProtoMessage, field: ProtoField, variant: MessageVariant): boolean {
+  if (hasFieldBehavior(field, 'REQUIRED')) {
+    return false;
+  }
+  if (hasFieldBehavior(field, 'OPTIONAL')) {
+    return true;
+  }
+  if (variant === 'input' && message.fields.some(candidate => candidate.behaviors?.length)) {
+    return true;
+  }
+  return field.optional;
+}
+
+/**
+ * The fields of a message that exist in a variant, with their presence for it, split
+ * into regular fields and the oneofs that still have members
+ */
+export function messageVariantShape(message: ProtoMessage, variant: MessageVariant): {
+  fields: ProtoField[];
+  regularFields: ProtoField[];
+  oneofs: ProtoOneof[];
+} {
+  const fields = message.fields
+    .filter(field => isFieldInVariant(field, variant))
+    .map(field => ({ ...field, optional: isOptionalInVariant(message, field, variant) }));
+
+  const oneofs = (message.oneofs || [])
+    .map(oneof => ({ ...oneof, fields: oneof.fields.filter(name => fields.some(field => field.name === name)) }))
+    .filter(oneof => oneof.fields.length > 0);
+  const oneofMembers = new Set(oneofs.flatMap(oneof => oneof.fields));
+
+  return { fields, regularFields: fields.filter(field => !oneofMembers.has(field.name)), oneofs };
+}
+
+/**
+ * Whether a message is generated in its input form only. Request messages are
+ * never returned, so they need no separate output type.
+ */
+export function isInputMessage(message: ProtoMessage): boolean {
+  return message.isRequest === true;
+}
+
+/**
+ * Keys of the messages that need a separate `${Name}Input` type because their
+ * input and output forms differ, either through their own output- or
+ * input-only fields or through a message field whose type differs
+ */
+export function inputVariantKeys(messages: ProtoMessage[]): Set<string> {
+  const candidates = messages.filter(message => !isInputMessage(message));
+  const typeNames = new TypeNameResolver(messages);
+  const keys = new Set(
+    candidates
+      .filter(message => message.fields.some(field =>
+        hasFieldBehavior(field, 'OUTPUT_ONLY') || hasFieldBehavior(field, 'INPUT_ONLY')
+      ))
+      .map(message => TypeNameResolver.keyOf(message))
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const message of candidates) {
+      const key = TypeNameResolver.keyOf(message);
+      if (!keys.has(key) && message.fields.some(field => keys.has(typeNames.keyOf(field.type) ?? ''))) {
+        keys.add(key);
+        changed = true;
+      }
+    }
+  }
+
+  return keys;
+}
@@ -0,0 +1,49 @@
+/**
+ * How proto field names become TypeScript property and wire names:
+ * - `original`: the name as declared in the .proto file (`first_name`)
+ * - `jsonName`: the proto3 JSON name, honoring explicit `json_name` options
+ * - `camelCase`: letters after underscores upper-cased (`first_name` -> `firstName`)
+ */
+export type FieldNamingStrategy = 'original' | 'jsonName' | 'camelCase';
+
+export interface NamedField {
+  name: string;
+  /** Explicit or derived JSON name, see `protoJsonName` */
+  jsonName?: string;
+}
+
+/**
+ * The JSON name protoc derives when a field has no `json_name` option: underscores
+ * are dropped and the character following each one is upper-cased
+ */
+export function protoJsonName(name: string): string {
+  let jsonName = '';
+  let capitalizeNext = false;
+
+  for (const char of name) {
+    if (char === '_') {
+      capitalizeNext = true;
+    } else if (capitalizeNext) {
+      jsonName += char.toUpperCase();
+      capitalizeNext = false;
+    } else {
+      jsonName += char;
+    }
+  }
+
+  return jsonName;
+}
+
+/**
+ * Property name of a field, or of a oneof group, under a naming strategy
+ */
+export function fieldPropertyName(field: NamedField, strategy: FieldNamingStrategy = 'camelCase'): string {
+  switch (strategy) {
+    case 'original':
+      return field.name;
+    case 'jsonName':
+      return field.jsonName ?? protoJsonName(field.name);
+    default:
+      return field.name.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Regular expression for a glob over `/`-separated paths. `**` matches any number
+ * of directories, `*` and `?` stay within one path segment, `{a,b}` matches either
+ * alternative and `[...]` is a character class (`[!...]` negated). The whole path
+ * has to match, so `*.proto` only selects files at the top level.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index]!;
+
+    if (char === '*' && glob[index + 1] === '*') {
+      // `**/` also matches no directory at all
+      const directories = glob[index + 2] === '/';
+      source += directories ? '(?:.*/)?' : '.*';
+      index += directories ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else if (char === '[' && glob.indexOf(']', index + 2) !== -1) {
+      const end = glob.indexOf(']', index + 2);
+      source += `[${glob.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      index = end;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a relative path is selected by include and exclude globs: it has to
+ * match one of the includes, if there are any, and none of the excludes
+ */
+export function matchesGlobs(filePath: string, include: string[] = [], exclude: string[] = []): boolean {
+  const normalized = filePath.split('\\').join('/').replace(/^\.\//, '');
+  const matches = (glob: string): boolean => globToRegExp(glob.replace(/^\.\//, '')).test(normalized);
+  return (include.length === 0 || include.some(matches)) && !exclude.some(matches);
+}
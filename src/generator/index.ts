@@ -2,11 +2,19 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ProtoParser, createParser } from './parser.js';
 import { TypeScriptTypeGenerator, createTypeGenerator } from './type-generator.js';
+import { ZodSchemaGenerator, createSchemaGenerator } from './schema-generator.js';
+import { ValidatorGenerator, createValidatorGenerator } from './validator-generator.js';
+import { JSONSchemaGenerator, createJSONSchemaGenerator } from './json-schema-generator.js';
 import { APIClientGenerator, createClientGenerator } from './client-generator.js';
+import { DiagnosticsError, diagnosticKey, formatDiagnostics } from './diagnostics.js';
+import { withoutDeprecated } from './deprecation.js';
+import { selectMethods } from './method-filter.js';
+import { renderLineComment } from './jsdoc.js';
 import type { 
   GeneratorOptions, 
   ParsedSchema,
   ProtoParseOptions,
+  ProtoDiagnostic,
   TypeMappingOptions,
   ClientGeneratorOptions 
 } from '../types/index.js';
@@ -14,15 +22,23 @@ import type {
 export class Proto2FetchGenerator {
   private parser: ProtoParser;
   private typeGenerator: TypeScriptTypeGenerator;
+  private schemaGenerator: ZodSchemaGenerator;
+  private validatorGenerator: ValidatorGenerator;
+  private jsonSchemaGenerator: JSONSchemaGenerator;
   private clientGenerator: APIClientGenerator;
+  private diagnostics = new Map<string, ProtoDiagnostic>();
 
   constructor(private _options: GeneratorOptions) {
     // Configure parser options
     const parseOptions: ProtoParseOptions = {
-      includePath: [this._options.protoPath],
+      includePath: [...([] as string[]).concat(this._options.protoPath), ...(this._options.includePaths || [])],
+      include: this._options.include,
+      exclude: this._options.exclude,
+      customOptions: this._options.customOptions,
       keepCase: true,
       alternateCommentMode: true,
-      preferTrailingComment: true
+      preferTrailingComment: true,
+      onDiagnostic: diagnostic => this.addDiagnostic(diagnostic)
     };
 
     // Configure type mapping options
@@ -30,7 +46,15 @@ export class Proto2FetchGenerator {
       dateAsString: this._options.dateType === 'string',
       bigintAsString: this._options.bigintType === 'string',
       bigintAsNumber: this._options.bigintType === 'number',
-      useOptionalForOptionalFields: true
+      useOptionalForOptionalFields: true,
+      enumStyle: this._options.enumStyle || 'union',
+      omitEnumUnspecified: this._options.omitEnumUnspecified ?? false,
+      oneofStyle: this._options.oneofStyle || 'union',
+      typeNaming: this._options.typeNaming || 'auto',
+      fieldNaming: this._options.fieldNaming || 'camelCase',
+      wellKnownTypes: this._options.wellKnownTypes,
+      includeSourceLocations: this._options.includeSourceLocations ?? false,
+      onDiagnostic: diagnostic => this.addDiagnostic(diagnostic)
     };
 
     // Configure client generator options
@@ -39,11 +63,21 @@ export class Proto2FetchGenerator {
       baseUrl: this._options.baseUrl && this._options.baseUrl.trim() ? this._options.baseUrl : '',
       generateComments: this._options.includeComments ?? true,
       generateFilterBuilders: this._options.generateFilterBuilders ?? true,
-      generateSortBuilders: this._options.generateSortBuilders ?? true
+      generateSortBuilders: this._options.generateSortBuilders ?? true,
+      generateValidators: this._options.generateValidators ?? false,
+      oneofStyle: this._options.oneofStyle || 'union',
+      typeNaming: this._options.typeNaming || 'auto',
+      fieldNaming: this._options.fieldNaming || 'camelCase',
+      wellKnownTypes: this._options.wellKnownTypes,
+      includeSourceLocations: this._options.includeSourceLocations ?? false,
+      onDiagnostic: diagnostic => this.addDiagnostic(diagnostic)
     };
 
     this.parser = createParser(parseOptions);
     this.typeGenerator = createTypeGenerator(typeMappingOptions);
+    this.schemaGenerator = createSchemaGenerator(typeMappingOptions);
+    this.validatorGenerator = createValidatorGenerator(typeMappingOptions);
+    this.jsonSchemaGenerator = createJSONSchemaGenerator(typeMappingOptions);
     this.clientGenerator = createClientGenerator(clientOptions);
   }
 
@@ -55,33 +89,93 @@ export class Proto2FetchGenerator {
     
     // Parse protobuf files
     console.log('📖 Parsing protobuf files...');
-    const schema = await this.parser.parseFromDirectory(this._options.protoPath);
+    const schema = await this.parse();
     
     console.log(`✅ Parsed ${schema.files.length} proto files`);
     console.log(`   - ${schema.files.flatMap(f => f.services).length} services`);
     console.log(`   - ${schema.files.flatMap(f => f.messages).length} messages`);
+    console.log(`   - ${schema.files.flatMap(f => f.enums || []).length} enums`);
+
+    console.log('🔧 Generating TypeScript types, API client and documentation...');
+    const files = this.generateFiles(schema);
+    this.flushDiagnostics();
 
     // Ensure output directory exists
     await this.ensureOutputDirectory();
 
-    // Generate TypeScript types
-    console.log('🔧 Generating TypeScript types...');
-    await this.generateTypes(schema);
+    for (const [fileName, content] of Object.entries(files)) {
+      const filePath = path.join(this._options.outputDir, fileName);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf8');
+      console.log(`   - ${fileName}`);
+    }
+
+    console.log('✅ Generation completed successfully!');
+    console.log(`📦 Output directory: ${this._options.outputDir}`);
+  }
+
+  /**
+   * Parse the descriptor set or the in-memory sources if one is configured, otherwise
+   * the selected .proto files under protoPath
+   */
+  async parse(): Promise<ParsedSchema> {
+    if (this._options.descriptorSet) {
+      return this.parser.parseFromDescriptorSet(this._options.descriptorSet);
+    }
+    return this._options.sources
+      ? this.parser.parseFromSources(this._options.sources)
+      : this.parser.parseFromDirectory(this._options.protoPath);
+  }
 
-    // Generate API client
-    console.log('🔧 Generating API client...');
-    await this.generateClient(schema);
+  /**
+   * Generated file contents keyed by their path relative to the output directory
+   */
+  generateFiles(parsed: ParsedSchema): Record<string, string> {
+    const schema = this.selectDeclarations(parsed);
+    return {
+      'types.ts': this.generateTypes(schema),
+      ...(this._options.generateZodSchemas ? { 'schemas.ts': this.schemaGenerator.generateSchemas(schema) } : {}),
+      ...(this._options.generateValidators ? { 'validators.ts': this.validatorGenerator.generateValidators(schema) } : {}),
+      ...this.generateJSONSchemas(schema),
+      'client.ts': this.generateClient(schema),
+      'package.json': this.generatePackageJson(schema),
+      'README.md': this.generateReadme(schema)
+    };
+  }
 
-    // Generate package.json
-    console.log('🔧 Generating package metadata...');
-    await this.generatePackageJson(schema);
+  /**
+   * Print the problems collected while parsing and generating as warnings, or
+   * throw them as a DiagnosticsError in strict mode if any of them is an error
+   */
+  flushDiagnostics(): void {
+    const diagnostics = [...this.diagnostics.values()];
+    this.diagnostics.clear();
+    if (diagnostics.length === 0) {
+      return;
+    }
 
-    // Generate README
-    console.log('🔧 Generating documentation...');
-    await this.generateReadme(schema);
+    if (this._options.strict && diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      throw new DiagnosticsError(diagnostics);
+    }
+    console.warn(`⚠️  ${formatDiagnostics(diagnostics)}`);
+  }
 
-    console.log('✅ Generation completed successfully!');
-    console.log(`📦 Output directory: ${this._options.outputDir}`);
+  /**
+   * The part of the schema that is generated, without deprecated or unselected declarations
+   */
+  private selectDeclarations(parsed: ParsedSchema): ParsedSchema {
+    let schema = this._options.excludeDeprecated ? withoutDeprecated(parsed) : parsed;
+    if (this._options.includeMethods?.length || this._options.excludeMethods?.length) {
+      schema = selectMethods(schema, this._options.includeMethods, this._options.excludeMethods);
+    }
+    return schema;
+  }
+
+  private addDiagnostic(diagnostic: ProtoDiagnostic): void {
+    const key = diagnosticKey(diagnostic);
+    if (!this.diagnostics.has(key)) {
+      this.diagnostics.set(key, diagnostic);
+    }
   }
 
   private async ensureOutputDirectory(): Promise<void> {
@@ -90,38 +184,49 @@ export class Proto2FetchGenerator {
     }
   }
 
-  private async generateTypes(schema: ParsedSchema): Promise<void> {
+  private generateTypes(schema: ParsedSchema): string {
     let typeContent = this.typeGenerator.generateTypes(schema);
     
     // Add filter and sort builders if enabled
     const allMessages = schema.files.flatMap(file => file.messages);
+    const allEnums = schema.files.flatMap(file => file.enums || []);
     
     if (this._options.generateFilterBuilders) {
-      typeContent += this.typeGenerator.generateFilterBuilders(allMessages);
+      typeContent += this.typeGenerator.generateFilterBuilders(allMessages, allEnums);
     }
     
     if (this._options.generateSortBuilders) {
-      typeContent += this.typeGenerator.generateSortBuilders(allMessages);
+      typeContent += this.typeGenerator.generateSortBuilders(allMessages, allEnums);
+    }
+
+    return typeContent;
+  }
+
+  private generateJSONSchemas(schema: ParsedSchema): Record<string, string> {
+    if (this._options.jsonSchema === 'bundle') {
+      return { 'schema.json': this.jsonSchemaGenerator.generateBundle(schema) };
+    }
+    if (this._options.jsonSchema !== 'perMessage') {
+      return {};
     }
 
-    const typesPath = path.join(this._options.outputDir, 'types.ts');
-    fs.writeFileSync(typesPath, typeContent, 'utf8');
+    const files = this.jsonSchemaGenerator.generateMessageSchemas(schema);
+    return Object.fromEntries(Object.entries(files).map(([fileName, content]) => [`json-schema/${fileName}`, content]));
   }
 
-  private async generateClient(schema: ParsedSchema): Promise<void> {
+  private generateClient(schema: ParsedSchema): string {
     let clientContent = this.clientGenerator.generateClient(schema);
     
     // Add helper methods
     clientContent += this.clientGenerator.generateHelperMethods(schema);
 
-    const clientPath = path.join(this._options.outputDir, 'client.ts');
-    fs.writeFileSync(clientPath, clientContent, 'utf8');
+    return clientContent;
   }
 
-  private async generatePackageJson(schema: ParsedSchema): Promise<void> {
+  private generatePackageJson(schema: ParsedSchema): string {
     const packageJson = {
       name: this._options.packageName || 'generated-api-client',
-      version: '1.0.0',
+      version: this.toPackageVersion(schema.version),
       description: schema.description || 'Generated API client from protobuf definitions',
       main: './client.js',
       types: './client.d.ts',
@@ -130,25 +235,25 @@ export class Proto2FetchGenerator {
         dev: 'tsc --watch'
       },
       dependencies: {
-        'proto2fetch': '^1.0.0'
+        'proto2fetch': '^1.0.0',
+        ...(this._options.generateZodSchemas ? { 'zod': '^3.23.0' } : {})
       },
       devDependencies: {
         'typescript': '^5.0.0'
       }
     };
 
-    const packagePath = path.join(this._options.outputDir, 'package.json');
-    fs.writeFileSync(packagePath, JSON.stringify(packageJson, null, 2), 'utf8');
+    return JSON.stringify(packageJson, null, 2);
   }
 
-  private async generateReadme(schema: ParsedSchema): Promise<void> {
+  private generateReadme(schema: ParsedSchema): string {
     const allServices = schema.files.flatMap(file => file.services);
     const allMethods = allServices.flatMap(service => service.methods);
     
-    const readme = `# ${this._options.packageName || 'Generated API Client'}
+    return `# ${this._options.packageName || schema.title || 'Generated API Client'}
 
 ${schema.description || 'Auto-generated TypeScript API client from protobuf definitions.'}
-
+${schema.version ? `\nAPI version: ${schema.version}\n` : ''}
 ## Installation
 
 \`\`\`bash
@@ -162,7 +267,7 @@ import { ${this._options.clientName || 'APIClient'} } from '${this._options.pack
 
 // Create client instance
 const client = new ${this._options.clientName || 'APIClient'}({
-  baseUrl: '${this._options.baseUrl || 'https://api.example.com'}',
+  baseUrl: '${this._options.baseUrl || schema.baseUrl || 'https://api.example.com'}',
   auth: {
     token: 'your-auth-token'
   }
@@ -171,7 +276,7 @@ const client = new ${this._options.clientName || 'APIClient'}({
 // Example API calls
 ${this.generateUsageExamples(allMethods.slice(0, 3))}
 \`\`\`
-
+${this.generateSecurityDocs(schema)}
 ## Configuration Options
 
 \`\`\`typescript
@@ -210,16 +315,38 @@ try {
 
 *This client was generated using [proto2fetch](https://github.com/szy0syz/proto2fetch).*
 `;
+  }
+
+  private generateSecurityDocs(schema: ParsedSchema): string {
+    const definitions = Object.entries(schema.securityDefinitions || {});
+    if (definitions.length === 0) {
+      return '';
+    }
+
+    const lines = definitions.map(([name, scheme]) => {
+      const location = scheme.type === 'apiKey' && scheme.name ? ` (\`${scheme.name}\` ${scheme.in || 'header'})` : '';
+      const description = scheme.description ? ` - ${scheme.description}` : '';
+      return `- **${name}**: ${scheme.type}${location}${description}`;
+    });
 
-    const readmePath = path.join(this._options.outputDir, 'README.md');
-    fs.writeFileSync(readmePath, readme, 'utf8');
+    return `\n## Authentication\n\n${lines.join('\n')}\n`;
+  }
+
+  /**
+   * npm requires semver, while API versions are often written as `v1` or `1.2`
+   */
+  private toPackageVersion(version?: string): string {
+    const match = version?.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(-[0-9A-Za-z.-]+)?$/);
+    if (!match) {
+      return '1.0.0';
+    }
+    return `${match[1]}.${match[2] || 0}.${match[3] || 0}${match[4] || ''}`;
   }
 
   private generateUsageExamples(methods: any[]): string {
     return methods.map(method => {
       const methodName = this.toCamelCase(method.name);
-      return `// ${method.summary || method.description || method.name}
-const result = await client.${methodName}(request);`;
+      return `${renderLineComment(method.summary || method.description || method.name)}const result = await client.${methodName}(request);`;
     }).join('\n\n');
   }
 
@@ -232,19 +359,36 @@ const result = await client.${methodName}(request);`;
 // Export generator classes and functions
 export { ProtoParser, createParser } from './parser.js';
 export { TypeScriptTypeGenerator, createTypeGenerator } from './type-generator.js';
+export { ZodSchemaGenerator, createSchemaGenerator } from './schema-generator.js';
+export { ValidatorGenerator, createValidatorGenerator, buildValidationRules } from './validator-generator.js';
+export { JSONSchemaGenerator, createJSONSchemaGenerator } from './json-schema-generator.js';
+export type { JSONSchema } from './json-schema-generator.js';
 export { APIClientGenerator, createClientGenerator } from './client-generator.js';
+export { WELL_KNOWN_TYPES } from './well-known-types.js';
+export { DiagnosticsError, formatDiagnostic, formatDiagnostics } from './diagnostics.js';
 
 export type {
   GeneratorOptions,
   ProtoParseOptions,
+  CustomOptionExtractor,
   TypeMappingOptions,
   ClientGeneratorOptions,
+  DiagnosticSeverity,
+  DiagnosticHandler,
+  ProtoDiagnostic,
   ParsedSchema,
   ProtoFile,
+  ProtoApiMetadata,
+  ProtoSecurityScheme,
   ProtoService,
   ProtoMethod,
+  ProtoHttpBinding,
+  HttpMethod,
   ProtoMessage,
-  ProtoField
+  ProtoField,
+  ProtoOneof,
+  ProtoEnum,
+  ProtoEnumValue
 } from '../types/index.js';
 
 /**
@@ -0,0 +1,91 @@
+import type { ProtoComments } from '../types/index.js';
+
+export interface JsDoc {
+  /** Main text; markdown is kept as written */
+  description?: string;
+  /** Comments of the documented declaration, see `ProtoComments` */
+  comments?: ProtoComments;
+  /** Example rendered in an `@example` block, pretty-printed when it is JSON */
+  example?: string;
+  /** Title shown after the `@example` tag */
+  exampleTitle?: string;
+  /** Block tags such as `@deprecated` or `@see`, one per entry */
+  tags?: string[];
+}
+
+/**
+ * Render a JSDoc block indented by `indent`, or an empty string when there is
+ * nothing to document. Detached comments are kept as line comments above the
+ * block, since they do not describe the declaration itself.
+ */
+export function renderJsDoc(doc: JsDoc, indent: string = ''): string {
+  const lines = descriptionParagraphs(doc).flatMap((paragraph, index) => [
+    ...(index > 0 ? [''] : []),
+    ...paragraph.split('\n')
+  ]);
+
+  for (const tag of doc.tags || []) {
+    lines.push(...tag.split('\n'));
+  }
+  if (doc.example) {
+    lines.push(doc.exampleTitle ? `@example ${doc.exampleTitle}` : '@example', ...exampleLines(doc.example));
+  }
+
+  const detached = (doc.comments?.detached || [])
+    .map(comment => `${renderLineComment(comment, indent)}\n`)
+    .join('');
+  if (lines.length === 0) {
+    return detached;
+  }
+
+  const body = lines.map(line => `${indent} * ${escapeCommentText(line)}`.trimEnd()).join('\n');
+  return `${detached}${indent}/**\n${body}\n${indent} */\n`;
+}
+
+/**
+ * Render text as `//` line comments, for places where a JSDoc block does not belong
+ */
+export function renderLineComment(text: string, indent: string = ''): string {
+  return text
+    .split('\n')
+    .map(line => `${indent}// ${line}`.trimEnd())
+    .join('\n') + '\n';
+}
+
+/**
+ * Keep text from closing the surrounding block comment
+ */
+export function escapeCommentText(text: string): string {
+  return text.replace(/\*\//g, '*\\/');
+}
+
+/**
+ * The description, or the comments it was taken from: a declaration with both a
+ * leading and a trailing comment keeps both, and the comment text keeps its
+ * original line structure
+ */
+function descriptionParagraphs(doc: JsDoc): string[] {
+  const { leading, trailing } = doc.comments || {};
+  if (!doc.description) {
+    return [];
+  }
+
+  const fromComment = [leading, trailing].some(comment => comment && sameText(comment, doc.description!));
+  if (!fromComment) {
+    return [doc.description];
+  }
+  return [leading, trailing].filter((comment): comment is string => comment !== undefined);
+}
+
+function sameText(a: string, b: string): boolean {
+  const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+  return collapse(a) === collapse(b);
+}
+
+function exampleLines(example: string): string[] {
+  try {
+    return ['```json', ...JSON.stringify(JSON.parse(example), null, 2).split('\n'), '```'];
+  } catch {
+    return example.split('\n');
+  }
+}
@@ -0,0 +1,446 @@
+import type {
+  ParsedSchema,
+  ProtoMessage,
+  ProtoField,
+  ProtoOneof,
+  ProtoEnum,
+  FieldRules,
+  StringFormat,
+  TypeMappingOptions
+} from '../types/index.js';
+import { TypeNameResolver } from './type-names.js';
+import { wellKnownTypeName } from './well-known-types.js';
+import { hasFieldBehavior, inputVariantKeys, isFieldInVariant, isInputMessage, messageVariantShape } from './field-behavior.js';
+import type { MessageVariant } from './field-behavior.js';
+import { fieldPropertyName } from './field-names.js';
+import { generatedEnumValues } from './enum-values.js';
+import type { NamedField } from './field-names.js';
+
+export type JSONSchema = { [keyword: string]: unknown };
+
+const DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const GENERATED_COMMENT = 'This file is auto-generated from protobuf definitions. Do not edit manually.';
+
+/**
+ * Scalars in their proto3 JSON form: 64-bit integers are decimal strings and bytes are base64
+ */
+const SCALAR_SCHEMAS: Readonly<Record<string, JSONSchema>> = {
+  string: { type: 'string' },
+  boolean: { type: 'boolean' },
+  bool: { type: 'boolean' },
+  int32: { type: 'integer' },
+  sint32: { type: 'integer' },
+  sfixed32: { type: 'integer' },
+  uint32: { type: 'integer', minimum: 0 },
+  fixed32: { type: 'integer', minimum: 0 },
+  int64: { type: 'string', format: 'int64', pattern: '^-?[0-9]+$' },
+  sint64: { type: 'string', format: 'int64', pattern: '^-?[0-9]+$' },
+  sfixed64: { type: 'string', format: 'int64', pattern: '^-?[0-9]+$' },
+  uint64: { type: 'string', format: 'uint64', pattern: '^[0-9]+$' },
+  fixed64: { type: 'string', format: 'uint64', pattern: '^[0-9]+$' },
+  float: { type: 'number' },
+  double: { type: 'number' },
+  bytes: { type: 'string', contentEncoding: 'base64' }
+};
+
+/**
+ * Well-known types in their proto3 JSON form. Durations are seconds with an `s` suffix,
+ * not the ISO 8601 durations of the `duration` format, so they get a pattern instead.
+ */
+const WELL_KNOWN_SCHEMAS: Readonly<Record<string, JSONSchema>> = {
+  Timestamp: { type: 'string', format: 'date-time' },
+  Duration: { type: 'string', pattern: '^-?[0-9]+(\\.[0-9]{1,9})?s$' },
+  Empty: { type: 'object', maxProperties: 0 },
+  Struct: { type: 'object' },
+  Value: {},
+  ListValue: { type: 'array' },
+  NullValue: { type: 'null' },
+  Any: { type: 'object', properties: { '@type': { type: 'string' } }, required: ['@type'] },
+  FieldMask: { type: 'string' },
+  DoubleValue: { type: ['number', 'null'] },
+  FloatValue: { type: ['number', 'null'] },
+  Int64Value: { type: ['string', 'null'], format: 'int64', pattern: '^-?[0-9]+$' },
+  UInt64Value: { type: ['string', 'null'], format: 'uint64', pattern: '^[0-9]+$' },
+  Int32Value: { type: ['integer', 'null'] },
+  UInt32Value: { type: ['integer', 'null'], minimum: 0 },
+  BoolValue: { type: ['boolean', 'null'] },
+  StringValue: { type: ['string', 'null'] },
+  BytesValue: { type: ['string', 'null'], contentEncoding: 'base64' }
+};
+
+/**
+ * Map keys are object keys, so integer and bool keys are only constrained in their text
+ */
+const MAP_KEY_SCHEMAS: Readonly<Record<string, JSONSchema>> = {
+  boolean: { enum: ['true', 'false'] },
+  bool: { enum: ['true', 'false'] },
+  int32: { pattern: '^-?[0-9]+$' },
+  sint32: { pattern: '^-?[0-9]+$' },
+  sfixed32: { pattern: '^-?[0-9]+$' },
+  int64: { pattern: '^-?[0-9]+$' },
+  sint64: { pattern: '^-?[0-9]+$' },
+  sfixed64: { pattern: '^-?[0-9]+$' },
+  uint32: { pattern: '^[0-9]+$' },
+  fixed32: { pattern: '^[0-9]+$' },
+  uint64: { pattern: '^[0-9]+$' },
+  fixed64: { pattern: '^[0-9]+$' }
+};
+
+const FORMAT_SCHEMAS: Readonly<Record<StringFormat, JSONSchema>> = {
+  email: { format: 'email' },
+  hostname: { format: 'hostname' },
+  ip: { anyOf: [{ format: 'ipv4' }, { format: 'ipv6' }] },
+  ipv4: { format: 'ipv4' },
+  ipv6: { format: 'ipv6' },
+  uri: { format: 'uri' },
+  uri_ref: { format: 'uri-reference' },
+  address: { anyOf: [{ format: 'hostname' }, { format: 'ipv4' }, { format: 'ipv6' }] },
+  uuid: { format: 'uuid' }
+};
+
+/**
+ * Generates JSON Schema (draft 2020-12) documents describing the proto3 JSON form of
+ * messages: either one document with every enum and message under `$defs`, or one
+ * document per enum and message that refers to the others by file name. Definitions follow the
+ * interfaces of `types.ts`, including `${Name}Input` variants, field naming and presence,
+ * while values are always in their JSON form whatever `dateType` and `bigintType` are.
+ */
+export class JSONSchemaGenerator {
+  private typeNames = new TypeNameResolver([]);
+  /** Messages that get a separate `${Name}Input` definition */
+  private inputVariants = new Set<string>();
+  private enumKeys = new Set<string>();
+  /** Whether declarations refer to each other within `$defs` rather than by file name */
+  private bundled = true;
+
+  // eslint-disable-next-line no-unused-vars
+  constructor(private options: TypeMappingOptions = {}) {}
+
+  /**
+   * A single document with a `$defs` entry per enum and message
+   */
+  generateBundle(schema: ParsedSchema): string {
+    const { messages, enums } = this.prepare(schema, true);
+    const defs: Record<string, JSONSchema> = {};
+
+    for (const protoEnum of enums) {
+      defs[this.typeNames.nameOf(protoEnum)] = this.enumSchema(protoEnum);
+    }
+    for (const [name, message, variant] of this.definitions(messages)) {
+      defs[name] = this.messageSchema(message, variant);
+    }
+
+    return JSON.stringify({
+      $schema: DIALECT,
+      $comment: GENERATED_COMMENT,
+      title: schema.title,
+      description: schema.description,
+      $defs: defs
+    }, null, 2);
+  }
+
+  /**
+   * A document per enum and message variant keyed by its file name, `${Name}.json`
+   */
+  generateMessageSchemas(schema: ParsedSchema): Record<string, string> {
+    const { messages, enums } = this.prepare(schema, false);
+    const files: Record<string, string> = {};
+
+    for (const protoEnum of enums) {
+      const name = this.typeNames.nameOf(protoEnum);
+      files[`${name}.json`] = this.document(name, this.enumSchema(protoEnum));
+    }
+    for (const [name, message, variant] of this.definitions(messages)) {
+      files[`${name}.json`] = this.document(name, this.messageSchema(message, variant));
+    }
+
+    return files;
+  }
+
+  private document(name: string, schema: JSONSchema): string {
+    return JSON.stringify({
+      $schema: DIALECT,
+      $id: `${name}.json`,
+      $comment: GENERATED_COMMENT,
+      title: name,
+      ...schema
+    }, null, 2);
+  }
+
+  private prepare(schema: ParsedSchema, bundled: boolean): { messages: ProtoMessage[]; enums: ProtoEnum[] } {
+    const messages = schema.files.flatMap(file => file.messages);
+    const enums = schema.files.flatMap(file => file.enums || []);
+    this.typeNames = new TypeNameResolver([...enums, ...messages], this.options.typeNaming);
+    this.inputVariants = inputVariantKeys(messages);
+    this.enumKeys = new Set(enums.map(protoEnum => TypeNameResolver.keyOf(protoEnum)));
+    this.bundled = bundled;
+    return { messages, enums };
+  }
+
+  /**
+   * Definition name, message and variant of every generated message type, as in types.ts
+   */
+  private definitions(messages: ProtoMessage[]): Array<[string, ProtoMessage, MessageVariant]> {
+    return messages.flatMap(message => {
+      const name = this.typeNames.nameOf(message);
+      if (isInputMessage(message)) {
+        return [[name, message, 'input']];
+      }
+      return this.inputVariants.has(TypeNameResolver.keyOf(message))
+        ? [[name, message, 'output'], [`${name}Input`, message, 'input']]
+        : [[name, message, 'output']];
+    });
+  }
+
+  private enumSchema(protoEnum: ProtoEnum): JSONSchema {
+    const values = generatedEnumValues(protoEnum, this.options.omitEnumUnspecified);
+    return {
+      description: protoEnum.description,
+      type: 'string',
+      enum: values.map(value => value.name),
+      deprecated: protoEnum.deprecated || undefined
+    };
+  }
+
+  private messageSchema(message: ProtoMessage, variant: MessageVariant): JSONSchema {
+    const { fields, regularFields, oneofs } = messageVariantShape(message, variant);
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+
+    for (const field of fields) {
+      properties[this.propertyName(field)] = this.propertySchema(field, variant);
+      if (regularFields.includes(field) && (!field.optional || field.rules?.required)) {
+        required.push(this.propertyName(field));
+      }
+    }
+
+    const oneofSchemas = oneofs
+      .map(oneof => this.oneofSchema(fields, oneof))
+      .filter((oneofSchema): oneofSchema is JSONSchema => oneofSchema !== undefined);
+
+    return {
+      description: message.description,
+      type: 'object',
+      properties,
+      required: required.length > 0 ? required : undefined,
+      allOf: oneofSchemas.length > 0 ? oneofSchemas : undefined,
+      deprecated: message.deprecated || undefined,
+      examples: this.messageExamples(message, variant)
+    };
+  }
+
+  /**
+   * The message example without the fields that do not exist in the variant, e.g. the
+   * output-only ones of an input variant
+   */
+  private messageExamples(message: ProtoMessage, variant: MessageVariant): unknown[] | undefined {
+    const examples = this.examples(message.example);
+    const example = examples?.[0];
+    if (!example || typeof example !== 'object' || Array.isArray(example)) {
+      return examples;
+    }
+
+    const absent = new Set(message.fields
+      .filter(field => !isFieldInVariant(field, variant))
+      .flatMap(field => [field.name, field.jsonName, this.propertyName(field)]));
+    return [Object.fromEntries(Object.entries(example).filter(([key]) => !absent.has(key)))];
+  }
+
+  /**
+   * Members of a oneof are separate properties in JSON, of which at most one may be set,
+   * or exactly one when the oneof is required
+   */
+  private oneofSchema(fields: ProtoField[], oneof: ProtoOneof): JSONSchema | undefined {
+    const members = oneof.fields.map(name => ({
+      required: [this.propertyName(fields.find(field => field.name === name) || { name })]
+    }));
+    if (oneof.required) {
+      return { description: oneof.description, oneOf: members };
+    }
+    return members.length > 1 ? { description: oneof.description, oneOf: [...members, { not: { anyOf: members } }] } : undefined;
+  }
+
+  private propertySchema(field: ProtoField, variant: MessageVariant): JSONSchema {
+    let schema = this.typeSchema(field.type, variant);
+    if (field.keyType) {
+      schema = { type: 'object', propertyNames: MAP_KEY_SCHEMAS[field.keyType], additionalProperties: schema };
+    } else if (field.repeated) {
+      schema = { type: 'array', items: schema };
+    }
+    if (field.rules) {
+      schema = this.withRules(schema, field.rules);
+    }
+
+    return {
+      description: field.description,
+      ...schema,
+      readOnly: (variant === 'output' && hasFieldBehavior(field, 'OUTPUT_ONLY')) || undefined,
+      deprecated: field.deprecated || undefined,
+      examples: this.examples(field.example)
+    };
+  }
+
+  private typeSchema(protoType: string, variant: MessageVariant): JSONSchema {
+    const wellKnownName = wellKnownTypeName(protoType);
+    return SCALAR_SCHEMAS[protoType]
+      ?? (wellKnownName ? WELL_KNOWN_SCHEMAS[wellKnownName] : undefined)
+      ?? this.referenceSchema(protoType, variant)
+      ?? {};
+  }
+
+  /**
+   * Enums and messages are defined in the `$defs` of the bundle, and are separate
+   * documents otherwise
+   */
+  private referenceSchema(protoType: string, variant: MessageVariant): JSONSchema | undefined {
+    const name = this.typeNames.resolve(protoType);
+    const key = this.typeNames.keyOf(protoType);
+    if (!name || !key) {
+      return undefined;
+    }
+
+    const target = !this.enumKeys.has(key) && variant === 'input' && this.inputVariants.has(key) ? `${name}Input` : name;
+    return { $ref: this.bundled ? `#/$defs/${target}` : `${target}.json` };
+  }
+
+  /**
+   * Add the keywords of protovalidate constraints to a field schema. Constraints skipped for
+   * empty values become an alternative to the empty value.
+   */
+  private withRules(schema: JSONSchema, rules: FieldRules): JSONSchema {
+    const constraints = this.constraints(schema, rules);
+    if (Object.keys(constraints).length === 0) {
+      return schema;
+    }
+    return rules.ignoreEmpty
+      ? { ...schema, anyOf: [this.emptyValueSchema(schema), constraints] }
+      : { ...schema, ...constraints };
+  }
+
+  private constraints(schema: JSONSchema, rules: FieldRules): JSONSchema {
+    const constraints: JSONSchema = {};
+    const allOf: JSONSchema[] = [];
+    // 64-bit integers are strings in JSON, so their values are compared as text
+    const isText = schema.type === 'string';
+    const value = (item: string | number | boolean) => (isText ? String(item) : item);
+
+    if (rules.const !== undefined) {
+      constraints.const = value(rules.const);
+    }
+    if (rules.in) {
+      constraints.enum = rules.in.map(value);
+    }
+    if (rules.notIn) {
+      allOf.push({ not: { enum: rules.notIn.map(value) } });
+    }
+
+    if (!isText) {
+      Object.assign(constraints, {
+        exclusiveMinimum: rules.gt,
+        minimum: rules.gte,
+        exclusiveMaximum: rules.lt,
+        maximum: rules.lte
+      });
+    }
+
+    Object.assign(constraints, {
+      minLength: rules.len ?? rules.minLen,
+      maxLength: rules.len ?? rules.maxLen
+    });
+
+    const patterns = [
+      rules.pattern,
+      rules.prefix !== undefined ? `^${this.escapePattern(rules.prefix)}` : undefined,
+      rules.suffix !== undefined ? `${this.escapePattern(rules.suffix)}$` : undefined,
+      rules.contains !== undefined ? this.escapePattern(rules.contains) : undefined
+    ].filter((pattern): pattern is string => pattern !== undefined);
+    constraints.pattern = patterns[0];
+    allOf.push(...patterns.slice(1).map(pattern => ({ pattern })));
+    if (rules.notContains !== undefined) {
+      allOf.push({ not: { pattern: this.escapePattern(rules.notContains) } });
+    }
+
+    if (rules.format) {
+      const formatSchema = FORMAT_SCHEMAS[rules.format];
+      if (formatSchema.format) {
+        constraints.format = formatSchema.format;
+      } else {
+        allOf.push(formatSchema);
+      }
+    }
+
+    if (schema.type === 'array') {
+      Object.assign(constraints, {
+        minItems: rules.minItems,
+        maxItems: rules.maxItems,
+        uniqueItems: rules.unique || undefined,
+        items: rules.items ? this.withRules(schema.items as JSONSchema, rules.items) : undefined
+      });
+    } else if (schema.type === 'object') {
+      Object.assign(constraints, {
+        minProperties: rules.minItems,
+        maxProperties: rules.maxItems,
+        propertyNames: rules.keys ? this.withRules({ type: 'string', ...(schema.propertyNames as JSONSchema) }, rules.keys) : undefined,
+        additionalProperties: rules.values ? this.withRules(schema.additionalProperties as JSONSchema, rules.values) : undefined
+      });
+    }
+
+    if (allOf.length > 0) {
+      constraints.allOf = allOf;
+    }
+    for (const key of Object.keys(constraints)) {
+      if (constraints[key] === undefined) {
+        delete constraints[key];
+      }
+    }
+    return constraints;
+  }
+
+  /**
+   * The zero value of a field, which `ignore_empty` constraints accept as is
+   */
+  private emptyValueSchema(schema: JSONSchema): JSONSchema {
+    switch (schema.type) {
+      case 'string':
+        return { const: schema.format === 'int64' || schema.format === 'uint64' ? '0' : '' };
+      case 'integer':
+      case 'number':
+        return { const: 0 };
+      case 'boolean':
+        return { const: false };
+      case 'array':
+        return { maxItems: 0 };
+      case 'object':
+        return { maxProperties: 0 };
+      default:
+        return {};
+    }
+  }
+
+  private escapePattern(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Examples are JSON values in openapiv2 options; anything else is kept as a string
+   */
+  private examples(example: string | undefined): unknown[] | undefined {
+    if (example === undefined) {
+      return undefined;
+    }
+    try {
+      return [JSON.parse(example)];
+    } catch {
+      return [example];
+    }
+  }
+
+  private propertyName(field: NamedField): string {
+    return fieldPropertyName(field, this.options.fieldNaming);
+  }
+}
+
+export function createJSONSchemaGenerator(options?: TypeMappingOptions): JSONSchemaGenerator {
+  return new JSONSchemaGenerator(options);
+}
@@ -0,0 +1,68 @@
+import type { ParsedSchema, ProtoEnum, ProtoMessage, ProtoMethod, ProtoService } from '../types/index.js';
+import { globToRegExp } from './glob.js';
+import { TypeNameResolver, reachableTypeKeys } from './type-names.js';
+
+/**
+ * Whether a method is picked by a selector:
+ * - `tag:<glob>` matches an openapiv2 tag of the method
+ * - `package:<glob>` matches the package of its service
+ * - any other glob matches the service or the method, by short name (`UserService`,
+ *   `UserService.GetUser`) or fully-qualified name (`users.v1.*`)
+ *
+ * In globs over dotted names `*` stays within one name segment and `**` spans several.
+ */
+export function matchesMethodSelector(service: ProtoService, method: ProtoMethod, selector: string): boolean {
+  const [, kind, glob = selector] = /^(tag|package):(.*)$/.exec(selector) || [];
+
+  if (kind === 'tag') {
+    return (method.tags || []).some(tag => matchesName(tag, glob));
+  }
+  if (kind === 'package') {
+    return matchesName(service.package || '', glob);
+  }
+
+  const serviceName = service.fullName || service.name;
+  return [
+    service.name,
+    serviceName,
+    `${service.name}.${method.name}`,
+    method.fullName || `${serviceName}.${method.name}`
+  ].some(name => matchesName(name, glob));
+}
+
+/**
+ * Copy of a schema with only the methods that match one of the `include` selectors,
+ * if there are any, and none of the `exclude` selectors. Services left without
+ * methods are dropped, and so are the messages and enums no remaining method uses.
+ */
+export function selectMethods(schema: ParsedSchema, include: string[] = [], exclude: string[] = []): ParsedSchema {
+  const selected = (service: ProtoService, method: ProtoMethod): boolean =>
+    (include.length === 0 || include.some(selector => matchesMethodSelector(service, method, selector))) &&
+    !exclude.some(selector => matchesMethodSelector(service, method, selector));
+
+  const files = schema.files.map(file => ({
+    ...file,
+    services: file.services
+      .map(service => ({ ...service, methods: service.methods.filter(method => selected(service, method)) }))
+      .filter(service => service.methods.length > 0)
+  }));
+
+  const declarations: Array<ProtoMessage | ProtoEnum> = files.flatMap(file => [...file.messages, ...(file.enums || [])]);
+  const reachable = reachableTypeKeys(
+    declarations,
+    files.flatMap(file => file.services.flatMap(service => service.methods.flatMap(m => [m.inputType, m.outputType])))
+  );
+
+  return {
+    ...schema,
+    files: files.map(file => ({
+      ...file,
+      messages: file.messages.filter(message => reachable.has(TypeNameResolver.keyOf(message))),
+      enums: file.enums?.filter(protoEnum => reachable.has(TypeNameResolver.keyOf(protoEnum)))
+    }))
+  };
+}
+
+function matchesName(name: string, glob: string): boolean {
+  return globToRegExp(glob.split('.').join('/')).test(name.split('.').join('/'));
+}
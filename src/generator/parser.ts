@@ -1,4 +1,5 @@
 import * as protobuf from 'protobufjs';
+import 'protobufjs/ext/descriptor/index.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import type {
@@ -6,25 +7,90 @@ import type {
   ProtoFile,
   ProtoService,
   ProtoMethod,
+  ProtoHttpBinding,
   ProtoMessage,
   ProtoField,
-  ProtoParseOptions
+  FieldBehavior,
+  FieldRules,
+  ProtoOneof,
+  ProtoEnum,
+  ProtoApiMetadata,
+  ProtoSecurityScheme,
+  ProtoParseOptions,
+  ProtoDiagnostic,
+  ProtoSourceLocation,
+  ProtoComments,
+  CustomOptionExtractor
 } from '../types/index.js';
+import { BUNDLED_PROTOS, isBundledPackage, readBundledProto, resolveBundledProto } from './bundled-protos/index.js';
+import { diagnosticKey, warnDiagnostic } from './diagnostics.js';
+import { dedentComment, scanSourcePositions } from './source-positions.js';
+import { protoJsonName } from './field-names.js';
+import { matchesGlobs } from './glob.js';
+import { normalizeFieldRules } from './validation-rules.js';
+import type { SourceDeclaration, SourcePosition } from './source-positions.js';
+
+/**
+ * `Root.fromDescriptor` is added by protobufjs/ext/descriptor, whose typings do not declare it
+ */
+type DescriptorRootConstructor = typeof protobuf.Root & {
+  fromDescriptor(_descriptor: Uint8Array): protobuf.Root;
+};
+
+type SourceLocation = Pick<ProtoDiagnostic, 'file' | 'line' | 'column'>;
 
 export class ProtoParser {
-  // eslint-disable-next-line no-unused-vars
-  constructor(private options: ProtoParseOptions = {}) {}
+  private readonly reported = new Set<string>();
+  private readonly sources = new Map<string, string | undefined>();
+  private readonly positions = new Map<string, Map<string, SourceDeclaration>>();
+  /** Locations and comments taken from the SourceCodeInfo of descriptor sets */
+  private readonly locations = new WeakMap<protobuf.ReflectionObject, ProtoSourceLocation>();
+  private readonly comments = new WeakMap<protobuf.ReflectionObject, ProtoComments>();
+  private readonly valueComments = new WeakMap<protobuf.Enum, Record<string, ProtoComments>>();
+  /** Files passed to parseFromSources, keyed by import path */
+  private readonly virtualFiles = new Map<string, string>();
+  private readonly customOptions = new Map<string, CustomOptionExtractor>();
+  /** Message-typed option extensions decoded as repeated, see `decodeOptionOccurrences` */
+  private readonly splitOptions = new Set<string>();
+
+  constructor(private options: ProtoParseOptions = {}) {
+    for (const option of options.customOptions || []) {
+      this.registerOption(option);
+    }
+  }
 
-  async parseFromDirectory(protoPath: string): Promise<ParsedSchema> {
-    const protoFiles = this.findProtoFiles(protoPath);
+  /**
+   * Keep the values of a custom option in the `options` of the methods and fields that set it
+   */
+  registerOption(option: string | CustomOptionExtractor): this {
+    const extractor = typeof option === 'string' ? { name: option } : option;
+    this.customOptions.set(extractor.name.replace(/^\(|\)$/g, '').replace(/^\./, ''), extractor);
+    return this;
+  }
+
+  /**
+   * Parse every .proto file under one or more roots that the include and exclude
+   * globs select, matched against the path relative to its root
+   */
+  async parseFromDirectory(protoPath: string | string[]): Promise<ParsedSchema> {
+    // Keyed by absolute path, so that files under nested roots are parsed once
+    const protoFiles = new Map<string, string>();
+    for (const root of ([] as string[]).concat(protoPath)) {
+      for (const file of this.findProtoFiles(root)) {
+        if (this.isSelected(path.relative(root, file))) {
+          protoFiles.set(path.resolve(file), file);
+        }
+      }
+    }
+    const serviceFiles = new Set(protoFiles.keys());
     const parsedFiles: ProtoFile[] = [];
 
-    for (const filePath of protoFiles) {
+    for (const filePath of protoFiles.values()) {
       try {
-        const parsed = await this.parseFile(filePath);
+        const parsed = await this.parseFile(filePath, serviceFiles);
         parsedFiles.push(parsed);
       } catch (error) {
-        console.warn(`Failed to parse ${filePath}:`, error);
+        this.report({ severity: 'error', message: this.errorMessage(error), file: filePath });
       }
     }
 
@@ -34,49 +100,111 @@ export class ProtoParser {
     };
   }
 
-  async parseFile(filePath: string): Promise<ProtoFile> {
-    const root = new protobuf.Root();
-    
-    // Configure parser options
-    if (this.options.includePath) {
-      root.resolvePath = (origin: string, target: string): string => {
-        for (const includePath of this.options.includePath!) {
-          const fullPath = path.resolve(includePath, target);
-          if (fs.existsSync(fullPath)) {
-            return fullPath;
-          }
-        }
-        return path.resolve(path.dirname(origin), target);
-      };
-    }
-    
-    // Add resolver to handle both local and builtin google files
-    const originalResolve = root.resolvePath;
-    root.resolvePath = (origin: string, target: string): string => {
-      // Skip all google imports to avoid extension resolution issues
-      if (target.includes('google/')) {
-        return '';
-      }
-      
-      // Skip protoc-gen imports
-      if (target.includes('protoc-gen-')) {
-        return '';
+  /**
+   * Parse in-memory files keyed by import path, e.g. `{ 'api/user.proto': source }`, without
+   * touching the file system. Imports resolve against the other entries before the include
+   * paths; entries ending in `.json` are protobufjs JSON descriptors.
+   */
+  async parseFromSources(files: Record<string, string>): Promise<ParsedSchema> {
+    const selected: string[] = [];
+    for (const [name, source] of Object.entries(files)) {
+      const fileName = this.virtualPath(name);
+      this.virtualFiles.set(fileName, source);
+      if (this.isSelected(fileName)) {
+        selected.push(fileName);
       }
-      
-      if (originalResolve) {
-        try {
-          const result = originalResolve(origin, target);
-          return result || '';
-        } catch {
-          return '';
+    }
+    const serviceFiles = new Set(selected);
+    const parsedFiles: ProtoFile[] = [];
+
+    for (const fileName of selected) {
+      try {
+        if (fileName.endsWith('.json')) {
+          parsedFiles.push(...this.parseJSONDescriptor(JSON.parse(this.virtualFiles.get(fileName)!)));
+        } else {
+          parsedFiles.push(await this.parseFile(fileName, serviceFiles));
         }
+      } catch (error) {
+        this.report({ severity: 'error', message: this.errorMessage(error), file: fileName });
       }
-      
-      return path.resolve(path.dirname(origin), target);
+    }
+
+    return {
+      files: parsedFiles,
+      ...this.extractSchemaMetadata(parsedFiles)
     };
+  }
 
-    const loadOptions: any = {
-      keepCase: this.options.keepCase ?? true
+  /**
+   * Parse a protobufjs JSON descriptor, the output of `root.toJSON()`, as an object or as text.
+   * The JSON does not say which file declared what, so there is one file per package.
+   */
+  async parseFromJSON(json: protobuf.INamespace | string): Promise<ParsedSchema> {
+    const parsedFiles = this.parseJSONDescriptor(typeof json === 'string' ? JSON.parse(json) : json);
+    return {
+      files: parsedFiles,
+      ...this.extractSchemaMetadata(parsedFiles)
+    };
+  }
+
+  /**
+   * Parse a binary FileDescriptorSet, e.g. from `protoc --include_imports --include_source_info
+   * --descriptor_set_out` or `buf build -o image.binpb`. Imports must be included in the set.
+   */
+  async parseFromDescriptorSet(input: string | Uint8Array): Promise<ParsedSchema> {
+    const buffer = typeof input === 'string' ? fs.readFileSync(input) : input;
+    const root = (protobuf.Root as DescriptorRootConstructor).fromDescriptor(buffer);
+
+    // Decode the set a second time against descriptor.proto, so that comments and custom
+    // options (which protobufjs drops when building the root) can be recovered. The copy in
+    // the set comes with the extensions that declare its custom options, the bundled one
+    // only knows the google/api, openapiv2 and validate ones.
+    const ownSetType = root.lookup('google.protobuf.FileDescriptorSet');
+    const setType = ownSetType instanceof protobuf.Type ? ownSetType : await this.bundledDescriptorSetType();
+    this.decodeOptionOccurrences(setType);
+    const descriptorSet = setType.toObject(setType.decode(buffer), { enums: String, longs: String, arrays: true });
+
+    const declaredIn = new Map<string, string>();
+    for (const file of descriptorSet.file) {
+      this.applyFileDescriptor(root, file, declaredIn);
+    }
+
+    const services = this.extractServices(root);
+    const messages = this.extractMessages(root);
+    const enums = this.extractEnums(root);
+
+    const parsedFiles: ProtoFile[] = descriptorSet.file
+      .filter((file: any) => !isBundledPackage(file.package))
+      .map((file: any): ProtoFile => {
+        const swagger = new Map(this.descriptorOptions(file.options))
+          .get('(grpc.gateway.protoc_gen_openapiv2.options.openapiv2_swagger)');
+        const inFile = (declaration: { fullName?: string }): boolean =>
+          !!declaration.fullName && declaredIn.get(declaration.fullName) === file.name;
+        return {
+          package: file.package || '',
+          services: services.filter(inFile).filter(() => this.isSelected(file.name)),
+          messages: messages.filter(inFile),
+          enums: enums.filter(inFile),
+          imports: file.dependency,
+          metadata: swagger ? this.toApiMetadata(swagger) : undefined
+        };
+      });
+
+    return {
+      files: parsedFiles,
+      ...this.extractSchemaMetadata(parsedFiles)
+    };
+  }
+
+  /**
+   * Parse a .proto file together with its imports. With `serviceFiles` (absolute paths),
+   * only services declared in those files are kept; imported messages always are.
+   */
+  async parseFile(filePath: string, serviceFiles?: ReadonlySet<string>): Promise<ProtoFile> {
+    const root = this.createRoot();
+
+    const loadOptions: protobuf.IParseOptions = {
+      keepCase: true
     };
     
     if (this.options.alternateCommentMode !== undefined) {
@@ -87,55 +215,441 @@ export class ProtoParser {
       loadOptions.preferTrailingComment = this.options.preferTrailingComment;
     }
 
-    // Always use permissive loading to avoid extension resolution issues
-    const permissiveRoot = new protobuf.Root();
-    
-    // Set up a permissive resolver that handles google/api imports
-    permissiveRoot.resolvePath = (origin: string, target: string): string => {
-      // Skip all google imports to avoid extension resolution issues
-      if (target.includes('google/')) {
-        return '';
-      }
-      
-      // Skip protoc-gen imports
-      if (target.includes('protoc-gen-')) {
-        return '';
-      }
-      
-      // Try to find local files
-      const localPath = path.resolve(path.dirname(origin), target);
-      if (fs.existsSync(localPath)) {
-        return localPath;
-      }
-      
-      // Skip if not found locally
-      return '';
-    };
-    
     try {
-      await permissiveRoot.load(filePath, { ...loadOptions, keepCase: true });
+      await root.load(filePath, loadOptions);
       
-      const services = this.extractServices(permissiveRoot);
-      const messages = this.extractMessages(permissiveRoot);
-      const imports = this.extractImports(filePath);
+      const services = this.extractServices(root, serviceFiles);
+      const messages = this.extractMessages(root);
+      const enums = this.extractEnums(root);
+      const source = this.readSource(filePath) || '';
+      const imports = this.extractImports(source);
+      const packageName = this.extractPackage(source);
       return {
-        package: permissiveRoot.nestedArray[0]?.name || '',
+        package: packageName,
         services,
         messages,
-        imports
+        enums,
+        imports,
+        metadata: this.extractApiMetadata(packageName ? root.lookup(packageName) : root)
       };
     } catch (error) {
-      console.warn(`Failed to load ${filePath}:`, error instanceof Error ? error.message.split('\n')[0] : error);
+      this.report({ severity: 'error', ...this.parseErrorLocation(error, filePath) });
       // Return empty result instead of failing completely
       return {
         package: '',
         services: [],
         messages: [],
+        enums: [],
         imports: []
       };
     }
   }
 
+  private createRoot(): protobuf.Root {
+    const root = new protobuf.Root();
+
+    // google/api, google/protobuf and openapiv2 imports are served from the bundled protos,
+    // everything else from the include paths or relative to the importing file
+    root.resolvePath = (origin: string, target: string): string => {
+      const bundled = resolveBundledProto(target);
+      if (bundled) {
+        return bundled;
+      }
+
+      const virtual = this.resolveVirtualFile(origin, target);
+      if (virtual) {
+        return virtual;
+      }
+
+      for (const includePath of this.options.includePath || []) {
+        const fullPath = path.resolve(includePath, target);
+        if (fs.existsSync(fullPath)) {
+          return fullPath;
+        }
+      }
+
+      const localPath = path.resolve(path.dirname(origin), target);
+      if (fs.existsSync(localPath)) {
+        return localPath;
+      }
+
+      // Skip if not found; the types it declares are reported as unresolved
+      this.report({
+        severity: 'error',
+        message: `Import "${target}" was not found`,
+        ...this.locate(origin, new RegExp(`import\\s+(?:public\\s+|weak\\s+)?["']${this.escapeRegExp(target)}["']`))
+      });
+      return '';
+    };
+
+    // protobufjs resolves everything once loading finishes and throws from inside its file
+    // callbacks on the first unknown type; types are resolved (and reported) one by one instead
+    root.resolveAll = (): protobuf.Root => {
+      try {
+        protobuf.Root.prototype.resolveAll.call(root);
+      } catch {
+        // Unresolved types are reported by resolveFieldType and resolveMethodType
+      }
+      return root;
+    };
+
+    // protobufjs signals success with a null error, which its typings do not allow for
+    root.fetch = ((fileName: string, callback: (_error: Error | null, _contents?: string) => void): void => {
+      const source = readBundledProto(fileName) ?? this.virtualFiles.get(fileName);
+      if (source !== undefined) {
+        // protobufjs expects fetch callbacks to run asynchronously
+        setTimeout(() => callback(null, source));
+      } else {
+        protobuf.util.fetch(fileName, callback);
+      }
+    }) as protobuf.Root['fetch'];
+
+    return root;
+  }
+
+  private async bundledDescriptorSetType(): Promise<protobuf.Type> {
+    const descriptorRoot = this.createRoot();
+    await descriptorRoot.load(Object.keys(BUNDLED_PROTOS), { keepCase: true });
+    return descriptorRoot.lookupType('google.protobuf.FileDescriptorSet');
+  }
+
+  /**
+   * protoc writes `[(ext).a = 1, (ext).b = 2]` as two occurrences of the extension, and
+   * protobufjs keeps only the last occurrence of a singular message field. Such extensions
+   * are decoded as repeated instead, so that `descriptorOptions` can merge the occurrences.
+   */
+  private decodeOptionOccurrences(setType: protobuf.Type): void {
+    const optionsTypes = ['File', 'Message', 'Field', 'Oneof', 'Enum', 'EnumValue', 'Service', 'Method']
+      .map(kind => setType.root.lookup(`google.protobuf.${kind}Options`))
+      .filter((type): type is protobuf.Type => type instanceof protobuf.Type);
+
+    for (const field of optionsTypes.flatMap(type => type.fieldsArray)) {
+      if (field.name.startsWith('.') && !field.repeated && field.resolve().resolvedType instanceof protobuf.Type) {
+        field.repeated = true;
+        this.splitOptions.add(field.name);
+      }
+    }
+  }
+
+  private parseJSONDescriptor(json: protobuf.INamespace): ProtoFile[] {
+    const root = protobuf.Root.fromJSON(json, this.createRoot());
+    root.resolveAll();
+
+    const services = this.extractServices(root);
+    const messages = this.extractMessages(root);
+    const enums = this.extractEnums(root);
+
+    const packages = new Set([...services, ...messages, ...enums].map(declaration => declaration.package || ''));
+    return [...packages].map((packageName): ProtoFile => {
+      const inPackage = (declaration: { package?: string }): boolean => (declaration.package || '') === packageName;
+      return {
+        package: packageName,
+        services: services.filter(inPackage),
+        messages: messages.filter(inPackage),
+        enums: enums.filter(inPackage),
+        imports: [],
+        metadata: this.extractApiMetadata(packageName ? root.lookup(packageName) : root)
+      };
+    });
+  }
+
+  /**
+   * Copy what `Root.fromDescriptor` leaves out — comments and locations from SourceCodeInfo,
+   * custom options, JSON names and proto3 `optional` presence — onto the reflection objects
+   * of one file.
+   * Paths follow the field numbers of descriptor.proto.
+   */
+  private applyFileDescriptor(root: protobuf.Root, file: any, declaredIn: Map<string, string>): void {
+    const comments = this.descriptorComments(file.source_code_info);
+    const commentSets = this.descriptorCommentSets(file.source_code_info);
+    const positions = this.descriptorPositions(file.source_code_info);
+    const apply = (obj: protobuf.ReflectionObject, descriptor: any, descriptorPath: number[]): void => {
+      const comment = comments.get(descriptorPath.join('.'));
+      if (comment) {
+        obj.comment = comment;
+      }
+      const commentSet = commentSets.get(descriptorPath.join('.'));
+      if (commentSet) {
+        this.comments.set(obj, commentSet);
+      }
+      this.locations.set(obj, { file: file.name, ...positions.get(descriptorPath.join('.')) });
+      for (const [name, value] of this.descriptorOptions(descriptor.options)) {
+        obj.setParsedOption(name, value, '');
+      }
+      if (descriptor.options?.deprecated) {
+        obj.options = { ...obj.options, deprecated: true };
+      }
+    };
+
+    const applyEnum = (protoEnum: protobuf.Enum, descriptor: any, descriptorPath: number[]): void => {
+      declaredIn.set(this.qualifiedName(protoEnum), file.name);
+      apply(protoEnum, descriptor, descriptorPath);
+      descriptor.value.forEach((value: any, index: number) => {
+        const comment = comments.get([...descriptorPath, 2, index].join('.'));
+        if (comment) {
+          protoEnum.comments[value.name] = comment;
+        }
+        const commentSet = commentSets.get([...descriptorPath, 2, index].join('.'));
+        if (commentSet) {
+          this.valueComments.set(protoEnum, { ...this.valueComments.get(protoEnum), [value.name]: commentSet });
+        }
+        if (value.options?.deprecated) {
+          protoEnum.valuesOptions = { ...protoEnum.valuesOptions, [value.name]: { deprecated: true } };
+        }
+      });
+    };
+
+    const applyMessage = (type: protobuf.Type, descriptor: any, descriptorPath: number[]): void => {
+      declaredIn.set(this.qualifiedName(type), file.name);
+      apply(type, descriptor, descriptorPath);
+      this.foldMapEntries(type, descriptor);
+
+      descriptor.field.forEach((fieldDescriptor: any, index: number) => {
+        const field = type.fields[fieldDescriptor.name];
+        if (!field) {
+          return;
+        }
+        apply(field, fieldDescriptor, [...descriptorPath, 2, index]);
+        // protobufjs looks for `proto3_optional` on the camel-cased descriptor and never finds it
+        if (fieldDescriptor.proto3_optional) {
+          field.options = { ...field.options, proto3_optional: true };
+        }
+        if (fieldDescriptor.json_name) {
+          field.options = { ...field.options, json_name: fieldDescriptor.json_name };
+        }
+      });
+
+      descriptor.oneof_decl.forEach((oneofDescriptor: any, index: number) => {
+        const oneof = type.oneofs?.[oneofDescriptor.name];
+        if (oneof) {
+          apply(oneof, oneofDescriptor, [...descriptorPath, 8, index]);
+        }
+      });
+
+      descriptor.nested_type.forEach((nestedDescriptor: any, index: number) => {
+        const nested = type.get(nestedDescriptor.name);
+        // Map entry types have been folded into their map fields
+        if (nested instanceof protobuf.Type) {
+          applyMessage(nested, nestedDescriptor, [...descriptorPath, 3, index]);
+        }
+      });
+
+      descriptor.enum_type.forEach((enumDescriptor: any, index: number) => {
+        const nested = type.get(enumDescriptor.name);
+        if (nested instanceof protobuf.Enum) {
+          applyEnum(nested, enumDescriptor, [...descriptorPath, 4, index]);
+        }
+      });
+    };
+
+    const scope = file.package ? root.lookup(file.package) : root;
+    if (!(scope instanceof protobuf.Namespace)) {
+      return;
+    }
+
+    file.message_type.forEach((descriptor: any, index: number) => {
+      const type = scope.get(descriptor.name);
+      if (type instanceof protobuf.Type) {
+        applyMessage(type, descriptor, [4, index]);
+      }
+    });
+
+    file.enum_type.forEach((descriptor: any, index: number) => {
+      const protoEnum = scope.get(descriptor.name);
+      if (protoEnum instanceof protobuf.Enum) {
+        applyEnum(protoEnum, descriptor, [5, index]);
+      }
+    });
+
+    file.service.forEach((descriptor: any, index: number) => {
+      const service = scope.get(descriptor.name);
+      if (!(service instanceof protobuf.Service)) {
+        return;
+      }
+      declaredIn.set(this.qualifiedName(service), file.name);
+      apply(service, descriptor, [6, index]);
+      descriptor.method.forEach((methodDescriptor: any, methodIndex: number) => {
+        const method = service.methods[methodDescriptor.name];
+        if (method) {
+          apply(method, methodDescriptor, [6, index, 2, methodIndex]);
+        }
+      });
+    });
+  }
+
+  /**
+   * protobufjs keeps map fields from a descriptor as repeated `XxxEntry` messages; turn
+   * them back into map fields, keeping the declaration order of the fields
+   */
+  private foldMapEntries(type: protobuf.Type, descriptor: any): void {
+    const entries = new Map<string, any>(
+      descriptor.nested_type
+        .filter((nested: any) => nested.options?.map_entry)
+        .map((nested: any) => [`.${this.qualifiedName(type)}.${nested.name}`, nested])
+    );
+    if (entries.size === 0) {
+      return;
+    }
+
+    const fieldType = (field: any): string => field.type_name || field.type.replace(/^TYPE_/, '').toLowerCase();
+    const fields = type.fieldsArray.slice();
+    fields.forEach(field => type.remove(field));
+
+    for (const field of fields) {
+      const fieldDescriptor = descriptor.field.find((candidate: any) => candidate.name === field.name);
+      const entry = entries.get(fieldDescriptor?.type_name);
+      if (!entry) {
+        type.add(field);
+        continue;
+      }
+
+      const key = entry.field.find((candidate: any) => candidate.number === 1);
+      const value = entry.field.find((candidate: any) => candidate.number === 2);
+      type.add(new protobuf.MapField(field.name, field.id, fieldType(key), fieldType(value), field.options));
+    }
+
+    for (const entry of entries.values()) {
+      const entryType = type.get(entry.name);
+      if (entryType) {
+        type.remove(entryType);
+      }
+    }
+  }
+
+  /**
+   * Comments keyed by their dot-joined SourceCodeInfo path
+   */
+  private descriptorComments(sourceCodeInfo: any): Map<string, string> {
+    const comments = new Map<string, string>();
+
+    for (const location of sourceCodeInfo?.location || []) {
+      const leading = this.normalizeComment(location.leading_comments);
+      const trailing = this.normalizeComment(location.trailing_comments);
+      const comment = this.options.preferTrailingComment ? trailing || leading : leading || trailing;
+      if (comment) {
+        comments.set(location.path.join('.'), comment);
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * Leading, trailing and detached comments keyed by their dot-joined SourceCodeInfo path,
+   * keeping the indentation that markdown relies on
+   */
+  private descriptorCommentSets(sourceCodeInfo: any): Map<string, ProtoComments> {
+    const commentSets = new Map<string, ProtoComments>();
+
+    // protoc keeps the extra `*` that opens a `/** ... */` comment
+    const text = (comment: string): string => dedentComment(comment.replace(/^\*+/, ''));
+
+    for (const location of sourceCodeInfo?.location || []) {
+      const commentSet: ProtoComments = {};
+      if (location.leading_comments?.trim()) {
+        commentSet.leading = text(location.leading_comments);
+      }
+      const detached = (location.leading_detached_comments || [])
+        .filter((comment: string) => comment.trim())
+        .map(text);
+      if (detached.length > 0) {
+        commentSet.detached = detached;
+      }
+      if (location.trailing_comments?.trim()) {
+        commentSet.trailing = text(location.trailing_comments);
+      }
+      if (Object.keys(commentSet).length > 0) {
+        commentSets.set(location.path.join('.'), commentSet);
+      }
+    }
+
+    return commentSets;
+  }
+
+  /**
+   * Start of every declaration keyed by its dot-joined SourceCodeInfo path; spans are 0-based
+   */
+  private descriptorPositions(sourceCodeInfo: any): Map<string, SourcePosition> {
+    const positions = new Map<string, SourcePosition>();
+
+    for (const location of sourceCodeInfo?.location || []) {
+      const [line, column] = location.span;
+      if (line !== undefined && column !== undefined) {
+        positions.set(location.path.join('.'), { line: line + 1, column: column + 1 });
+      }
+    }
+
+    return positions;
+  }
+
+  private normalizeComment(comment: string | undefined): string | undefined {
+    const normalized = comment
+      ?.split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .trim();
+    return normalized || undefined;
+  }
+
+  /**
+   * Extension values of a decoded options message, named like custom options of the text parser
+   */
+  private descriptorOptions(options: Record<string, any> | undefined): Array<[string, any]> {
+    return Object.entries(options || {})
+      .filter(([key]) => key.startsWith('.'))
+      .map(([key, value]): [string, any] => [
+        `(${key.slice(1)})`,
+        this.splitOptions.has(key) && Array.isArray(value) ? this.mergeOccurrences(value) : value
+      ])
+      .filter(([, value]) => value !== undefined);
+  }
+
+  private mergeOccurrences(occurrences: Array<Record<string, any>>): Record<string, any> | undefined {
+    return occurrences.length > 0
+      ? occurrences.reduce((merged, occurrence) => this.mergeOption(merged, occurrence), {})
+      : undefined;
+  }
+
+  /**
+   * Merge two occurrences of a message option the way protobuf does: nested messages
+   * are merged, repeated fields concatenated and scalars of the later one win
+   */
+  private mergeOption(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+    const isMessage = (value: unknown): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+    const merged = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      if (Array.isArray(merged[key]) && Array.isArray(value)) {
+        merged[key] = [...merged[key], ...value];
+      } else if (isMessage(merged[key]) && isMessage(value)) {
+        merged[key] = this.mergeOption(merged[key], value);
+      } else {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  private isDeclaredIn(obj: protobuf.ReflectionObject, files: ReadonlySet<string>): boolean {
+    return !!obj.filename && files.has(this.virtualFiles.has(obj.filename) ? obj.filename : path.resolve(obj.filename));
+  }
+
+  /**
+   * The in-memory file an import refers to, from the root of the in-memory files or
+   * relative to the importing file
+   */
+  private resolveVirtualFile(origin: string, target: string): string | undefined {
+    const file = this.virtualPath(target);
+    return [file, path.posix.join(path.posix.dirname(origin), file)].find(candidate => this.virtualFiles.has(candidate));
+  }
+
+  private virtualPath(file: string): string {
+    return file.split('\\').join('/').replace(/^\.\//, '');
+  }
+
+  private isSelected(file: string): boolean {
+    return matchesGlobs(file, this.options.include, this.options.exclude);
+  }
+
   private findProtoFiles(dir: string): string[] {
     const files: string[] = [];
     
@@ -157,7 +671,7 @@ export class ProtoParser {
     return files;
   }
 
-  private extractServices(root: protobuf.Root): ProtoService[] {
+  private extractServices(root: protobuf.Root, serviceFiles?: ReadonlySet<string>): ProtoService[] {
     const services: ProtoService[] = [];
 
     // Debug logging for service discovery (can be disabled in production)
@@ -178,16 +692,25 @@ export class ProtoParser {
         }
         
         if (nested instanceof protobuf.Service) {
+          // Services of files that are only imported, e.g. from an include path, are left out
+          if (serviceFiles && !this.isDeclaredIn(nested, serviceFiles)) {
+            return;
+          }
           if (this.options.debug) {
             console.log(`✅ Found service: ${currentPath}`);
           }
           const service: ProtoService = {
             name: nested.name,
+            fullName: this.qualifiedName(nested),
+            package: this.packageOf(nested),
             methods: this.extractMethods(nested),
-            description: this.extractComment(nested)
+            description: this.extractComment(nested),
+            comments: this.commentsOf(nested),
+            deprecated: this.isDeprecated(nested),
+            location: this.locationOf(nested)
           };
           services.push(service);
-        } else if (nested instanceof protobuf.Namespace) {
+        } else if (nested instanceof protobuf.Namespace && !isBundledPackage(this.qualifiedName(nested))) {
           traverseNamespace(nested, currentPath);
         }
       });
@@ -206,13 +729,22 @@ export class ProtoParser {
 
       const protoMethod: ProtoMethod = {
         name,
-        inputType: method.requestType,
-        outputType: method.responseType,
-        httpMethod: httpOptions.method,
-        httpPath: httpOptions.path,
+        fullName: this.qualifiedName(method),
+        inputType: this.resolveMethodType(method, method.requestType),
+        outputType: this.resolveMethodType(method, method.responseType),
+        httpMethod: httpOptions.httpMethod,
+        httpPath: httpOptions.httpPath,
+        body: httpOptions.body,
+        responseBody: httpOptions.responseBody,
+        additionalBindings: httpOptions.additionalBindings,
         description: openApiOptions.description || this.extractComment(method),
+        comments: this.commentsOf(method),
+        example: openApiOptions.example,
         summary: openApiOptions.summary,
-        tags: openApiOptions.tags ? [openApiOptions.tags] : undefined
+        tags: openApiOptions.tags ? ([] as string[]).concat(openApiOptions.tags) : undefined,
+        deprecated: this.isDeprecated(method),
+        options: this.extractCustomOptions(method, 'method'),
+        location: this.locationOf(method)
       };
 
       methods.push(protoMethod);
@@ -221,38 +753,24 @@ export class ProtoParser {
     return methods;
   }
 
-  private extractHttpOptions(method: protobuf.Method): { method: ProtoMethod['httpMethod']; path: string } {
+  private extractHttpOptions(method: protobuf.Method): ProtoHttpBinding & { additionalBindings?: ProtoHttpBinding[] } {
     if (this.options.debug) {
       console.log(`🌐 Extracting HTTP options for method: ${method.name}`);
       console.log('Method options:', JSON.stringify(method.options, null, 2));
     }
     
-    // Try the nested structure first
-    let httpOption = method.options?.['(google.api.http)'];
+    const httpOption = this.extractOption(method, 'google.api.http');
+    const binding = httpOption ? this.parseHttpRule(httpOption) : undefined;
     
-    // If not found, try the flattened structure
-    if (!httpOption && method.options) {
-      const flatOptions: any = {};
-      for (const [key, value] of Object.entries(method.options)) {
-        if (key.startsWith('(google.api.http).')) {
-          const httpKey = key.replace('(google.api.http).', '');
-          flatOptions[httpKey] = value;
-        }
-      }
-      if (Object.keys(flatOptions).length > 0) {
-        httpOption = flatOptions;
-      }
-    }
-    
-    if (httpOption) {
+    if (binding) {
       if (this.options.debug) {
         console.log('✅ Found HTTP option:', JSON.stringify(httpOption, null, 2));
       }
-      if (httpOption.get) return { method: 'GET', path: httpOption.get };
-      if (httpOption.post) return { method: 'POST', path: httpOption.post };
-      if (httpOption.put) return { method: 'PUT', path: httpOption.put };
-      if (httpOption.delete) return { method: 'DELETE', path: httpOption.delete };
-      if (httpOption.patch) return { method: 'PATCH', path: httpOption.patch };
+      const additionalBindings = ([] as any[])
+        .concat(httpOption.additional_bindings ?? [])
+        .map(rule => this.parseHttpRule(rule))
+        .filter((rule): rule is ProtoHttpBinding => rule !== undefined);
+      return additionalBindings.length > 0 ? { ...binding, additionalBindings } : binding;
     } else {
       if (this.options.debug) {
         console.log('❌ No HTTP option found, using default');
@@ -260,23 +778,58 @@ export class ProtoParser {
     }
 
     // Default to POST if no HTTP option found
-    return { method: 'POST', path: `/${method.name}` };
+    return { httpMethod: 'POST', httpPath: `/${method.name}` };
+  }
+
+  private parseHttpRule(rule: any): ProtoHttpBinding | undefined {
+    let binding: ProtoHttpBinding | undefined;
+
+    for (const verb of ['get', 'post', 'put', 'delete', 'patch']) {
+      if (rule?.[verb]) {
+        binding = { httpMethod: verb.toUpperCase(), httpPath: rule[verb] };
+        break;
+      }
+    }
+
+    if (!binding && rule?.custom?.kind && rule.custom.path) {
+      binding = { httpMethod: String(rule.custom.kind).toUpperCase(), httpPath: rule.custom.path };
+    }
+
+    if (!binding) {
+      return undefined;
+    }
+
+    // Without a body selector grpc-gateway reads every non-path field from the query string
+    binding.body = rule.body ?? '';
+    if (rule.response_body) {
+      binding.responseBody = rule.response_body;
+    }
+
+    return binding;
   }
 
   private extractOpenApiOptions(method: protobuf.Method): {
     description?: string;
     summary?: string;
-    tags?: string;
+    tags?: string | string[];
+    example?: string;
   } {
-    const openApiOption = method.options?.['(grpc.gateway.protoc_gen_openapiv2.options.openapiv2_operation)'];
+    const openApiOption = this.extractOption(method, 'grpc.gateway.protoc_gen_openapiv2.options.openapiv2_operation');
+    const response = this.mapEntries(openApiOption?.responses).find(([status]) => status === '200')?.[1];
     
     return {
       description: openApiOption?.description,
       summary: openApiOption?.summary,
-      tags: openApiOption?.tags
+      tags: openApiOption?.tags,
+      example: this.mapEntries(response?.examples).find(([mimeType]) => mimeType === 'application/json')?.[1]
     };
   }
 
+  private extractSchemaExample(type: protobuf.Type): string | undefined {
+    const schema = this.extractOption(type, 'grpc.gateway.protoc_gen_openapiv2.options.openapiv2_schema');
+    return schema?.example ?? schema?.json_schema?.example;
+  }
+
   private extractMessages(root: protobuf.Root): ProtoMessage[] {
     const messages: ProtoMessage[] = [];
 
@@ -285,13 +838,22 @@ export class ProtoParser {
         if (nested instanceof protobuf.Type) {
           const message: ProtoMessage = {
             name: nested.name,
+            fullName: this.qualifiedName(nested),
+            package: this.packageOf(nested),
             fields: this.extractFields(nested),
+            oneofs: this.extractOneofs(nested),
             description: this.extractComment(nested),
+            comments: this.commentsOf(nested),
+            example: this.extractSchemaExample(nested),
             isRequest: nested.name.endsWith('Request'),
-            isResponse: nested.name.endsWith('Response')
+            isResponse: nested.name.endsWith('Response'),
+            deprecated: this.isDeprecated(nested),
+            location: this.locationOf(nested)
           };
           messages.push(message);
-        } else if (nested instanceof protobuf.Namespace) {
+          // Nested message declarations are emitted alongside their parent
+          traverseNamespace(nested);
+        } else if (nested instanceof protobuf.Namespace && !isBundledPackage(this.qualifiedName(nested))) {
           traverseNamespace(nested);
         }
       });
@@ -301,17 +863,62 @@ export class ProtoParser {
     return messages;
   }
 
+  private extractEnums(root: protobuf.Root): ProtoEnum[] {
+    const enums: ProtoEnum[] = [];
+
+    // Enums can live at package level or nested inside messages, so descend into types as well
+    const traverseNamespace = (namespace: protobuf.Namespace): void => {
+      namespace.nestedArray.forEach(nested => {
+        if (nested instanceof protobuf.Enum) {
+          enums.push({
+            name: nested.name,
+            fullName: this.qualifiedName(nested),
+            package: this.packageOf(nested),
+            values: Object.entries(nested.values).map(([name, number]) => ({
+              name,
+              number,
+              description: nested.comments[name] || undefined,
+              comments: this.enumValueCommentsOf(nested, name),
+              deprecated: nested.valuesOptions?.[name]?.deprecated === true || undefined
+            })),
+            description: this.extractComment(nested),
+            comments: this.commentsOf(nested),
+            deprecated: this.isDeprecated(nested),
+            location: this.locationOf(nested)
+          });
+        } else if (nested instanceof protobuf.Namespace && !isBundledPackage(this.qualifiedName(nested))) {
+          traverseNamespace(nested);
+        }
+      });
+    };
+
+    traverseNamespace(root);
+    return enums;
+  }
+
   private extractFields(type: protobuf.Type): ProtoField[] {
     const fields: ProtoField[] = [];
 
     for (const [name, field] of Object.entries(type.fields)) {
       const protoField: ProtoField = {
         name,
-        type: this.normalizeFieldType(field.type),
+        fullName: this.qualifiedName(field),
+        jsonName: field.options?.json_name ?? protoJsonName(name),
+        type: this.resolveFieldType(field),
+        keyType: field instanceof protobuf.MapField ? this.normalizeFieldType(field.keyType) : undefined,
         repeated: field.repeated,
-        optional: field.optional || field.partOf !== null, // oneof fields are considered optional
+        // protobufjs reports every non-required field as optional, so rely on explicit presence instead
+        optional: field.options?.proto3_optional === true || field.partOf !== null,
         number: field.id,
-        description: this.extractComment(field)
+        oneof: field.partOf && !this.isSyntheticOneof(field.partOf) ? field.partOf.name : undefined,
+        behaviors: this.extractFieldBehaviors(field),
+        description: this.extractComment(field),
+        comments: this.commentsOf(field),
+        example: this.extractOption(field, 'grpc.gateway.protoc_gen_openapiv2.options.openapiv2_field')?.example,
+        deprecated: this.isDeprecated(field),
+        options: this.extractCustomOptions(field, 'field'),
+        rules: this.extractFieldRules(field),
+        location: this.locationOf(field)
       };
       fields.push(protoField);
     }
@@ -319,6 +926,222 @@ export class ProtoParser {
     return fields;
   }
 
+  /**
+   * `google.api.field_behavior` is repeated, so every occurrence counts, not just the last
+   */
+  private extractFieldBehaviors(field: protobuf.Field): FieldBehavior[] | undefined {
+    const behaviors = ((field.parsedOptions as Array<Record<string, any>> | undefined) || [])
+      .filter(option => '(google.api.field_behavior)' in option)
+      .flatMap(option => ([] as FieldBehavior[]).concat(option['(google.api.field_behavior)']));
+    return behaviors.length > 0 ? behaviors : undefined;
+  }
+
+  /**
+   * protovalidate constraints, or the protoc-gen-validate ones of fields not migrated yet
+   */
+  private extractFieldRules(field: protobuf.Field): FieldRules | undefined {
+    const option = this.extractOption(field, 'buf.validate.field') ?? this.extractOption(field, 'validate.rules');
+    return normalizeFieldRules(option, field.resolvedType instanceof protobuf.Enum ? field.resolvedType.values : undefined);
+  }
+
+  private extractOneofs(type: protobuf.Type): ProtoOneof[] {
+    return type.oneofsArray
+      .filter(oneof => !this.isSyntheticOneof(oneof))
+      .map(oneof => ({
+        name: oneof.name,
+        fields: oneof.fieldsArray.map(field => field.name),
+        required: this.extractOption(oneof, 'buf.validate.oneof')?.required === true
+          || this.extractOption(oneof, 'validate.required') === true
+          || undefined,
+        description: this.extractComment(oneof),
+        comments: this.commentsOf(oneof)
+      }));
+  }
+
+  /**
+   * proto3 `optional` fields are wrapped in a single-member oneof named `_<field>`
+   */
+  private isSyntheticOneof(oneof: protobuf.OneOf): boolean {
+    return oneof.fieldsArray.length === 1 && oneof.fieldsArray[0]?.options?.proto3_optional === true;
+  }
+
+  private resolveFieldType(field: protobuf.Field): string {
+    try {
+      field.resolve();
+    } catch {
+      // Types from skipped or missing imports keep their declared name
+      this.report({
+        severity: 'error',
+        message: `Unresolved type "${field.type}" of field "${this.qualifiedName(field)}"`,
+        ...this.declarationSite(field)
+      });
+    }
+
+    return this.normalizeFieldType(field.resolvedType ? this.qualifiedName(field.resolvedType) : field.type);
+  }
+
+  private resolveMethodType(method: protobuf.Method, typeName: string): string {
+    const resolved = method.parent?.lookup(typeName, [protobuf.Type]);
+    if (!resolved) {
+      this.report({
+        severity: 'error',
+        message: `Unresolved type "${typeName}" of method "${this.qualifiedName(method)}"`,
+        ...this.declarationSite(method)
+      });
+    }
+    return this.normalizeFieldType(resolved ? this.qualifiedName(resolved) : typeName);
+  }
+
+  private report(diagnostic: ProtoDiagnostic): void {
+    // Every file is parsed together with its imports, so the same problem can come up repeatedly
+    const key = diagnosticKey(diagnostic);
+    if (this.reported.has(key)) {
+      return;
+    }
+    this.reported.add(key);
+    (this.options.onDiagnostic || warnDiagnostic)(diagnostic);
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message.split('\n')[0] || error.name : String(error);
+  }
+
+  /**
+   * protobufjs parse errors end in `(file, line N)`; the column is found from the offending token
+   */
+  private parseErrorLocation(error: unknown, filePath: string): Pick<ProtoDiagnostic, 'message'> & SourceLocation {
+    const message = this.errorMessage(error);
+    const match = /^(.*) \((?:(.+), )?line (\d+)\)$/.exec(message);
+    if (!match) {
+      return { message, file: filePath };
+    }
+
+    const [, text = message, file = filePath, line] = match;
+    const token = /'(.+?)'/.exec(text)?.[1];
+    const sourceLine = this.readSource(file)?.split('\n')[Number(line) - 1];
+    const column = token && sourceLine ? sourceLine.indexOf(token) + 1 : 0;
+    return column > 0
+      ? { message: text, file, line: Number(line), column }
+      : { message: text, file, line: Number(line) };
+  }
+
+  /**
+   * Position of the first match of a declaration pattern in a source file
+   */
+  private locate(file: string | null | undefined, pattern: RegExp): SourceLocation {
+    if (!file) {
+      return {};
+    }
+
+    const source = this.readSource(file);
+    const match = source ? pattern.exec(source) : null;
+    if (!source || !match) {
+      return { file };
+    }
+
+    const before = source.slice(0, match.index).split('\n');
+    return { file, line: before.length, column: (before[before.length - 1]?.length ?? 0) + 1 };
+  }
+
+  /**
+   * Where a declaration was made, for the parsed model: from SourceCodeInfo for descriptor
+   * sets, otherwise by scanning its source file
+   */
+  private locationOf(obj: protobuf.ReflectionObject): ProtoSourceLocation | undefined {
+    const recorded = this.locations.get(obj);
+    if (recorded || !obj.filename) {
+      return recorded;
+    }
+    return { file: this.importPath(obj.filename), ...this.sourcePosition(obj.filename, obj) };
+  }
+
+  /**
+   * Comments of a declaration, from SourceCodeInfo for descriptor sets, otherwise by
+   * scanning its source file
+   */
+  private commentsOf(obj: protobuf.ReflectionObject): ProtoComments | undefined {
+    if (this.locations.has(obj) || !obj.filename) {
+      return this.comments.get(obj);
+    }
+    return this.sourceDeclaration(obj.filename, this.qualifiedName(obj))?.comments;
+  }
+
+  private enumValueCommentsOf(protoEnum: protobuf.Enum, name: string): ProtoComments | undefined {
+    if (this.locations.has(protoEnum) || !protoEnum.filename) {
+      return this.valueComments.get(protoEnum)?.[name];
+    }
+    return this.sourceDeclaration(protoEnum.filename, `${this.qualifiedName(protoEnum)}.${name}`)?.comments;
+  }
+
+  /**
+   * Where a declaration was made, for diagnostics: the actual file rather than its import path
+   */
+  private declarationSite(obj: protobuf.ReflectionObject): SourceLocation {
+    return obj.filename
+      ? { file: obj.filename, ...this.sourcePosition(obj.filename, obj) }
+      : { ...this.locations.get(obj) };
+  }
+
+  private sourcePosition(file: string, obj: protobuf.ReflectionObject): SourcePosition | undefined {
+    const declaration = this.sourceDeclaration(file, this.qualifiedName(obj));
+    return declaration && { line: declaration.line, column: declaration.column };
+  }
+
+  private sourceDeclaration(file: string, name: string): SourceDeclaration | undefined {
+    if (!this.positions.has(file)) {
+      const source = this.readSource(file);
+      this.positions.set(file, source ? scanSourcePositions(source) : new Map());
+    }
+    return this.positions.get(file)!.get(name);
+  }
+
+  /**
+   * Path of a file relative to the include path it lives under, as it would be imported
+   */
+  private importPath(file: string): string {
+    if (this.virtualFiles.has(file)) {
+      return file;
+    }
+    const includePath = (this.options.includePath || [])
+      .map(dir => path.relative(dir, file))
+      .find(relative => relative && !relative.startsWith('..') && !path.isAbsolute(relative));
+    return (includePath || file).split(path.sep).join('/');
+  }
+
+  private readSource(file: string): string | undefined {
+    if (!this.sources.has(file)) {
+      let source = readBundledProto(file) ?? this.virtualFiles.get(file);
+      if (source === undefined) {
+        try {
+          source = fs.readFileSync(file, 'utf8');
+        } catch {
+          source = undefined;
+        }
+      }
+      this.sources.set(file, source);
+    }
+    return this.sources.get(file);
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private qualifiedName(obj: protobuf.ReflectionObject): string {
+    return obj.fullName.replace(/^\./, '');
+  }
+
+  /**
+   * Package of a declaration, skipping enclosing messages of nested types
+   */
+  private packageOf(obj: protobuf.ReflectionObject): string {
+    let parent = obj.parent;
+    while (parent instanceof protobuf.Type) {
+      parent = parent.parent;
+    }
+    return parent ? this.qualifiedName(parent) : '';
+  }
+
   private normalizeFieldType(type: string): string {
     // Map protobuf types to more semantic names
     const typeMap: Record<string, string> = {
@@ -337,8 +1160,12 @@ export class ProtoParser {
     return typeMap[type] || type;
   }
 
-  private extractImports(filePath: string): string[] {
-    const content = fs.readFileSync(filePath, 'utf8');
+  private extractPackage(content: string): string {
+    const match = /^\s*package\s+([\w.]+)\s*;/m.exec(content);
+    return match?.[1] || '';
+  }
+
+  private extractImports(content: string): string[] {
     const imports: string[] = [];
     
     const importRegex = /import\s+["']([^"']+)["']/g;
@@ -353,25 +1180,159 @@ export class ProtoParser {
     return imports;
   }
 
+  /**
+   * Read a custom option as a structured value. protobufjs keeps aggregate
+   * options in `parsedOptions`, and a flattened `(name).field` copy in `options`.
+   */
+  private extractOption(obj: protobuf.ReflectionObject, name: string): any {
+    const optionName = `(${name})`;
+    const parsed = (obj.parsedOptions as Array<Record<string, any>> | undefined)
+      ?.filter(option => optionName in option)
+      .map(option => option[optionName]);
+
+    if (parsed && parsed.length > 0) {
+      return parsed.every(value => value && typeof value === 'object' && !Array.isArray(value))
+        ? Object.assign({}, ...parsed)
+        : parsed[parsed.length - 1];
+    }
+
+    if (obj.options?.[optionName] !== undefined) {
+      return obj.options[optionName];
+    }
+
+    const flattened: Record<string, any> = {};
+    for (const [key, value] of Object.entries(obj.options || {})) {
+      if (key.startsWith(`${optionName}.`)) {
+        flattened[key.slice(optionName.length + 1)] = value;
+      }
+    }
+    return Object.keys(flattened).length > 0 ? flattened : undefined;
+  }
+
+  private extractCustomOptions(obj: protobuf.ReflectionObject, kind: 'method' | 'field'): Record<string, unknown> | undefined {
+    const options: Record<string, unknown> = {};
+    for (const [name, extractor] of this.customOptions) {
+      const value = this.extractOption(obj, name);
+      const extracted = value !== undefined && extractor.extract
+        ? extractor.extract(value, { kind, fullName: this.qualifiedName(obj) })
+        : value;
+      if (extracted !== undefined) {
+        options[name] = extracted;
+      }
+    }
+    return Object.keys(options).length > 0 ? options : undefined;
+  }
+
+  private isDeprecated(obj: protobuf.ReflectionObject): boolean | undefined {
+    return obj.options?.deprecated === true || undefined;
+  }
+
   private extractComment(obj: any): string | undefined {
     return obj.comment || obj.options?.['(protoc-gen-openapi.options.openapiv2_schema)']?.description;
   }
 
   private extractSchemaMetadata(files: ProtoFile[]): Partial<ParsedSchema> {
-    // Extract metadata from OpenAPI configuration if present
-    for (const file of files) {
-      if (file.services.length > 0) {
-        // Look for OpenAPI swagger options in the first service file
-        // This is typically where global metadata is defined
-        return {
-          title: 'Generated API Client',
-          version: '1.0.0',
-          description: 'Auto-generated TypeScript API client from protobuf definitions'
-        };
+    // The swagger option is declared once per API, normally next to the services
+    const metadata = files.find(file => file.metadata && file.services.length > 0)?.metadata
+      || files.find(file => file.metadata)?.metadata;
+
+    if (!metadata) {
+      return {};
+    }
+
+    const result: Partial<ParsedSchema> = { ...metadata };
+    if (metadata.host) {
+      const scheme = !metadata.schemes?.length || metadata.schemes.includes('https') ? 'https' : metadata.schemes[0];
+      result.baseUrl = `${scheme}://${metadata.host}${(metadata.basePath || '').replace(/\/+$/, '')}`;
+    }
+
+    return result;
+  }
+
+  /**
+   * File-level options end up on the namespace of the file's package
+   */
+  private extractApiMetadata(namespace: protobuf.ReflectionObject | null): ProtoApiMetadata | undefined {
+    const swagger = namespace
+      ? this.extractOption(namespace, 'grpc.gateway.protoc_gen_openapiv2.options.openapiv2_swagger')
+      : undefined;
+    return swagger ? this.toApiMetadata(swagger) : undefined;
+  }
+
+  private toApiMetadata(swagger: any): ProtoApiMetadata {
+    const metadata: ProtoApiMetadata = {
+      title: swagger.info?.title,
+      version: swagger.info?.version,
+      description: swagger.info?.description,
+      host: swagger.host,
+      basePath: swagger.base_path,
+      schemes: swagger.schemes
+        ? ([] as string[]).concat(swagger.schemes).map(scheme => String(scheme).toLowerCase())
+        : undefined,
+      securityDefinitions: this.extractSecurityDefinitions(swagger.security_definitions)
+    };
+
+    // Drop undeclared properties so metadata from several sources can be merged
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as ProtoApiMetadata;
+  }
+
+  private extractSecurityDefinitions(definitions: any): Record<string, ProtoSecurityScheme> | undefined {
+    if (!definitions?.security) {
+      return undefined;
+    }
+
+    const types: Record<string, ProtoSecurityScheme['type']> = {
+      TYPE_BASIC: 'basic',
+      TYPE_API_KEY: 'apiKey',
+      TYPE_OAUTH2: 'oauth2'
+    };
+    const locations: Record<string, ProtoSecurityScheme['in']> = {
+      IN_QUERY: 'query',
+      IN_HEADER: 'header'
+    };
+    const flows: Record<string, ProtoSecurityScheme['flow']> = {
+      FLOW_IMPLICIT: 'implicit',
+      FLOW_PASSWORD: 'password',
+      FLOW_APPLICATION: 'application',
+      FLOW_ACCESS_CODE: 'accessCode'
+    };
+
+    const schemes: Record<string, ProtoSecurityScheme> = {};
+    for (const [key, value] of this.mapEntries(definitions.security)) {
+      const type = types[value?.type];
+      if (!type) {
+        continue;
       }
+
+      const scheme: ProtoSecurityScheme = { type };
+      if (value.description) scheme.description = value.description;
+      if (value.name) scheme.name = value.name;
+      if (locations[value.in]) scheme.in = locations[value.in];
+      if (flows[value.flow]) scheme.flow = flows[value.flow];
+      if (value.authorization_url) scheme.authorizationUrl = value.authorization_url;
+      if (value.token_url) scheme.tokenUrl = value.token_url;
+      if (value.scopes?.scope) {
+        scheme.scopes = Object.fromEntries(this.mapEntries(value.scopes.scope));
+      }
+      schemes[key] = scheme;
     }
 
-    return {};
+    return Object.keys(schemes).length > 0 ? schemes : undefined;
+  }
+
+  /**
+   * Text-format maps are written as repeated `{ key, value }` entries, while maps
+   * decoded from a descriptor set are plain objects
+   */
+  private mapEntries(map: any): Array<[string, any]> {
+    if (Array.isArray(map) || (map && 'key' in map && 'value' in map)) {
+      return ([] as any[]).concat(map)
+        .filter(entry => entry?.key)
+        .map(entry => [entry.key, entry.value]);
+    }
+    return map && typeof map === 'object' ? Object.entries(map) : [];
   }
 }
 
@@ -0,0 +1,55 @@
+export interface PathTemplateVariable {
+  /** Dot-separated proto field path, e.g. `user.id` */
+  fieldPath: string;
+  /** Segment pattern after `=`, e.g. `projects/*`; undefined for plain `{field}` variables */
+  pattern?: string;
+}
+
+export type PathTemplateSegment = string | PathTemplateVariable;
+
+/**
+ * A google.api.http path template split into literal text (including any
+ * `:verb` suffix) and variables
+ */
+export interface PathTemplate {
+  segments: PathTemplateSegment[];
+  variables: PathTemplateVariable[];
+}
+
+/**
+ * Parse a grpc-gateway path template such as `/v1/{parent=projects/*}/books:search`
+ */
+export function parsePathTemplate(template: string): PathTemplate {
+  const segments: PathTemplateSegment[] = [];
+  const variables: PathTemplateVariable[] = [];
+  let position = 0;
+
+  while (position < template.length) {
+    const start = template.indexOf('{', position);
+    if (start === -1) {
+      segments.push(template.slice(position));
+      break;
+    }
+
+    const end = template.indexOf('}', start);
+    if (end === -1) {
+      throw new Error(`Unterminated variable in path template "${template}"`);
+    }
+
+    if (start > position) {
+      segments.push(template.slice(position, start));
+    }
+
+    const [fieldPath = '', pattern] = template.slice(start + 1, end).split('=', 2).map(part => part.trim());
+    if (!fieldPath) {
+      throw new Error(`Empty variable in path template "${template}"`);
+    }
+
+    const variable: PathTemplateVariable = pattern ? { fieldPath, pattern } : { fieldPath };
+    segments.push(variable);
+    variables.push(variable);
+    position = end + 1;
+  }
+
+  return { segments, variables };
+}
@@ -0,0 +1,161 @@
+import * as protobuf from 'protobufjs';
+import { Proto2FetchGenerator } from './index.js';
+import type { GeneratorOptions } from '../types/index.js';
+
+/**
+ * The parts of google/protobuf/compiler/plugin.proto the plugin needs. File
+ * descriptors are kept as raw bytes and handed to the parser as a FileDescriptorSet.
+ */
+const pluginRoot = protobuf.Root.fromJSON({
+  nested: {
+    CodeGeneratorRequest: {
+      fields: {
+        file_to_generate: { rule: 'repeated', type: 'string', id: 1 },
+        parameter: { type: 'string', id: 2 },
+        proto_file: { rule: 'repeated', type: 'bytes', id: 15 }
+      }
+    },
+    CodeGeneratorResponse: {
+      fields: {
+        error: { type: 'string', id: 1 },
+        supported_features: { type: 'uint64', id: 2 },
+        file: { rule: 'repeated', type: 'File', id: 15 }
+      },
+      nested: {
+        File: {
+          fields: {
+            name: { type: 'string', id: 1 },
+            insertion_point: { type: 'string', id: 2 },
+            content: { type: 'string', id: 15 }
+          }
+        }
+      }
+    },
+    FileDescriptorSet: {
+      fields: {
+        file: { rule: 'repeated', type: 'bytes', id: 1 }
+      }
+    }
+  }
+});
+
+const CodeGeneratorRequest = pluginRoot.lookupType('CodeGeneratorRequest');
+const CodeGeneratorResponse = pluginRoot.lookupType('CodeGeneratorResponse');
+const FileDescriptorSet = pluginRoot.lookupType('FileDescriptorSet');
+
+/**
+ * CodeGeneratorResponse.Feature.FEATURE_PROTO3_OPTIONAL
+ */
+const FEATURE_PROTO3_OPTIONAL = 1;
+
+type PluginParameterKind = 'string' | 'boolean' | 'list' | readonly string[];
+
+/**
+ * Generator options that can be set through the plugin parameter
+ */
+const PLUGIN_PARAMETERS: Record<string, PluginParameterKind> = {
+  baseUrl: 'string',
+  packageName: 'string',
+  clientName: 'string',
+  includeComments: 'boolean',
+  generateFilterBuilders: 'boolean',
+  generateSortBuilders: 'boolean',
+  generateZodSchemas: 'boolean',
+  generateValidators: 'boolean',
+  jsonSchema: ['bundle', 'perMessage'],
+  dateType: ['Date', 'string'],
+  bigintType: ['number', 'bigint', 'string'],
+  enumStyle: ['union', 'enum', 'const'],
+  omitEnumUnspecified: 'boolean',
+  oneofStyle: ['union', 'tagged'],
+  typeNaming: ['auto', 'qualified'],
+  fieldNaming: ['original', 'jsonName', 'camelCase'],
+  strict: 'boolean',
+  includeSourceLocations: 'boolean',
+  excludeDeprecated: 'boolean',
+  includeMethods: 'list',
+  excludeMethods: 'list',
+  customOptions: 'list'
+};
+
+/**
+ * Parse a plugin parameter such as `client_name=UserClient,date_type=string`.
+ * Names may be written in snake_case, kebab-case or camelCase; a flag without
+ * a value is `true`, and list parameters are repeated once per value.
+ */
+export function parsePluginParameter(parameter: string | undefined): Partial<GeneratorOptions> {
+  const options: Record<string, string | boolean | string[]> = {};
+
+  for (const entry of (parameter || '').split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const separator = entry.indexOf('=');
+    const rawName = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+    const value = separator === -1 ? undefined : entry.slice(separator + 1).trim();
+    const name = rawName.replace(/[-_]([a-z])/g, (_, letter) => letter.toUpperCase());
+    const kind = PLUGIN_PARAMETERS[name];
+
+    if (!kind) {
+      throw new Error(`Unknown parameter "${rawName}"`);
+    }
+
+    if (kind === 'boolean') {
+      if (value !== undefined && value !== 'true' && value !== 'false') {
+        throw new Error(`Parameter "${rawName}" must be "true" or "false"`);
+      }
+      options[name] = value !== 'false';
+    } else if (kind === 'string' || kind === 'list') {
+      if (!value) {
+        throw new Error(`Parameter "${rawName}" requires a value`);
+      }
+      options[name] = kind === 'list' ? [...((options[name] as string[] | undefined) || []), value] : value;
+    } else {
+      if (!value || !kind.includes(value)) {
+        throw new Error(`Parameter "${rawName}" must be one of: ${kind.join(', ')}`);
+      }
+      options[name] = value;
+    }
+  }
+
+  return options as Partial<GeneratorOptions>;
+}
+
+/**
+ * Run proto2fetch as a protoc plugin: decode a CodeGeneratorRequest and encode
+ * the CodeGeneratorResponse with the generated files. Failures are reported
+ * through the response's `error` field, as protoc expects.
+ */
+export async function runPlugin(request: Uint8Array): Promise<Uint8Array> {
+  let response: Record<string, unknown>;
+
+  try {
+    const decoded = CodeGeneratorRequest.toObject(CodeGeneratorRequest.decode(request), { arrays: true });
+    const generator = new Proto2FetchGenerator({
+      includeComments: true,
+      generateFilterBuilders: true,
+      generateSortBuilders: true,
+      ...parsePluginParameter(decoded.parameter),
+      protoPath: '',
+      outputDir: '',
+      // proto_file also holds the imported files, which are only needed to resolve types
+      include: decoded.file_to_generate,
+      descriptorSet: FileDescriptorSet.encode({ file: decoded.proto_file }).finish()
+    });
+
+    const files = generator.generateFiles(await generator.parse());
+    generator.flushDiagnostics();
+    response = {
+      supported_features: FEATURE_PROTO3_OPTIONAL,
+      file: Object.entries(files).map(([name, content]) => ({ name, content }))
+    };
+  } catch (error) {
+    response = {
+      supported_features: FEATURE_PROTO3_OPTIONAL,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  return CodeGeneratorResponse.encode(CodeGeneratorResponse.fromObject(response)).finish();
+}
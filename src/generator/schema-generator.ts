@@ -0,0 +1,317 @@
+import type {
+  ParsedSchema,
+  ProtoMessage,
+  ProtoField,
+  ProtoOneof,
+  ProtoEnum,
+  TypeMappingOptions
+} from '../types/index.js';
+import { TypeNameResolver, reachableTypeKeys } from './type-names.js';
+import { WELL_KNOWN_TYPES, WellKnownTypeMapper, wellKnownTypeName } from './well-known-types.js';
+import { hasFieldBehavior, inputVariantKeys, isInputMessage, messageVariantShape } from './field-behavior.js';
+import type { MessageVariant } from './field-behavior.js';
+import { fieldPropertyName } from './field-names.js';
+import { generatedEnumValues } from './enum-values.js';
+import type { NamedField } from './field-names.js';
+
+/**
+ * Zod schemas of the default well-known type mappings in WELL_KNOWN_TYPES;
+ * overridden mappings become `z.custom<T>()`
+ */
+const WELL_KNOWN_SCHEMAS: Readonly<Record<string, string>> = {
+  Duration: 'z.string()',
+  Empty: 'z.record(z.never())',
+  Struct: 'z.record(z.unknown())',
+  Value: 'z.unknown()',
+  ListValue: 'z.array(z.unknown())',
+  NullValue: 'z.null()',
+  Any: "z.object({ '@type': z.string() }).catchall(z.unknown())",
+  FieldMask: 'z.string()',
+  DoubleValue: 'z.number().nullable()',
+  FloatValue: 'z.number().nullable()',
+  Int64Value: 'z.string().nullable()',
+  UInt64Value: 'z.string().nullable()',
+  Int32Value: 'z.number().nullable()',
+  UInt32Value: 'z.number().nullable()',
+  BoolValue: 'z.boolean().nullable()',
+  StringValue: 'z.string().nullable()',
+  BytesValue: 'z.string().nullable()'
+};
+
+/**
+ * Generates `schemas.ts`: a Zod schema per enum and message of `types.ts`, each
+ * with a `z.infer` type of the same name as the generated interface. Timestamps
+ * and 64-bit integers are coerced from their JSON strings when `dateType` or
+ * `bigintType` ask for `Date` or `bigint`, and base64 bytes become `Uint8Array`.
+ */
+export class ZodSchemaGenerator {
+  private typeNames = new TypeNameResolver([]);
+  /** Messages that get a separate `${Name}InputSchema` */
+  private inputVariants = new Set<string>();
+  private enumKeys = new Set<string>();
+  /** Messages that refer back to themselves, whose schemas need an explicit type */
+  private recursiveKeys = new Set<string>();
+  /** Schemas emitted so far; later ones are referred to through `z.lazy` */
+  private defined = new Set<string>();
+  private usesTypes = false;
+  private usesBytes = false;
+  private wellKnownTypes: WellKnownTypeMapper;
+
+  constructor(private options: TypeMappingOptions = {}) {
+    this.wellKnownTypes = new WellKnownTypeMapper(options.wellKnownTypes);
+  }
+
+  generateSchemas(schema: ParsedSchema): string {
+    const allMessages = schema.files.flatMap(file => file.messages);
+    const allEnums = schema.files.flatMap(file => file.enums || []);
+    this.typeNames = new TypeNameResolver([...allEnums, ...allMessages], this.options.typeNaming);
+    this.inputVariants = inputVariantKeys(allMessages);
+    this.enumKeys = new Set(allEnums.map(protoEnum => TypeNameResolver.keyOf(protoEnum)));
+    this.recursiveKeys = this.recursiveMessageKeys(allMessages, allEnums);
+    this.defined = new Set();
+    this.usesTypes = false;
+    this.usesBytes = false;
+
+    let body = '';
+
+    for (const protoEnum of allEnums) {
+      const name = `${this.typeNames.nameOf(protoEnum)}Schema`;
+      if (!this.defined.has(name)) {
+        body += this.generateEnumSchema(protoEnum);
+        body += '\n';
+      }
+    }
+
+    for (const message of this.orderByDependency(allMessages)) {
+      const variants: MessageVariant[] = isInputMessage(message)
+        ? ['input']
+        : this.inputVariants.has(TypeNameResolver.keyOf(message)) ? ['output', 'input'] : ['output'];
+      for (const variant of variants) {
+        if (!this.defined.has(this.schemaName(message, variant))) {
+          body += this.generateMessageSchema(message, variant);
+          body += '\n';
+        }
+      }
+    }
+
+    return this.generateHeader() + body;
+  }
+
+  private generateHeader(): string {
+    let output = `// This file is auto-generated. Do not edit manually.
+// Generated from protobuf definitions
+
+import { z } from 'zod';
+`;
+    if (this.usesTypes) {
+      output += `import * as Types from './types.js';\n`;
+    }
+    if (this.usesBytes) {
+      output += `
+// bytes are base64 strings in JSON, standard or URL-safe
+const bytesSchema: z.ZodType<Uint8Array, z.ZodTypeDef, unknown> = z.union([
+  z.instanceof(Uint8Array),
+  z.string()
+    .regex(/^[A-Za-z0-9+/_-]*={0,2}$/)
+    .transform(value => Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0)))
+]);
+`;
+    }
+    return output + '\n';
+  }
+
+  private generateEnumSchema(protoEnum: ProtoEnum): string {
+    const enumName = this.typeNames.nameOf(protoEnum);
+    const values = generatedEnumValues(protoEnum, this.options.omitEnumUnspecified);
+
+    let schema: string;
+    if (this.options.enumStyle === 'enum' || this.options.enumStyle === 'const') {
+      // TypeScript enums and const objects are values of types.ts
+      this.usesTypes = true;
+      schema = `z.nativeEnum(Types.${enumName})`;
+    } else {
+      schema = values.length > 0 ? `z.enum([${values.map(value => `'${value.name}'`).join(', ')}])` : 'z.never()';
+    }
+
+    this.defined.add(`${enumName}Schema`);
+    return `export const ${enumName}Schema = ${schema};\n` +
+      `export type ${enumName} = z.infer<typeof ${enumName}Schema>;\n`;
+  }
+
+  private generateMessageSchema(message: ProtoMessage, variant: MessageVariant): string {
+    const typeName = this.interfaceName(message, variant);
+    const schemaName = this.schemaName(message, variant);
+    const { fields, regularFields, oneofs } = messageVariantShape(message, variant);
+
+    const properties = regularFields.map(field => `  ${this.propertyName(field)}: ${this.fieldSchema(field, variant)}`);
+    if (this.options.oneofStyle === 'tagged') {
+      properties.push(...oneofs.map(oneof => `  ${this.propertyName(oneof)}: ${this.taggedOneofSchema(fields, oneof, variant)}`));
+    }
+
+    let schema = properties.length > 0 ? `z.object({\n${properties.join(',\n')}\n})` : 'z.object({})';
+    if (this.options.oneofStyle !== 'tagged') {
+      for (const oneof of oneofs) {
+        schema += `.and(${this.oneofUnionSchema(fields, oneof, variant)})`;
+      }
+    }
+
+    // Schemas that refer to themselves cannot have their type inferred, and inferred
+    // types have no readonly properties for the output-only fields of types.ts
+    let annotation = '';
+    const hasReadonlyFields = variant === 'output' && fields.some(field => hasFieldBehavior(field, 'OUTPUT_ONLY'));
+    if (this.recursiveKeys.has(TypeNameResolver.keyOf(message)) || hasReadonlyFields) {
+      this.usesTypes = true;
+      annotation = `: z.ZodType<Types.${typeName}, z.ZodTypeDef, unknown>`;
+    }
+
+    this.defined.add(schemaName);
+    return `export const ${schemaName}${annotation} = ${schema};\n` +
+      `export type ${typeName} = z.infer<typeof ${schemaName}>;\n`;
+  }
+
+  /**
+   * One alternative per member of the oneof, where the other members are unset,
+   * and a last one where none is set
+   */
+  private oneofUnionSchema(fields: ProtoField[], oneof: ProtoOneof, variant: MessageVariant): string {
+    const members = this.oneofMembers(fields, oneof);
+    const alternatives = [...members, undefined].map(selected => {
+      const properties = members.map(member => member === selected
+        ? `${this.propertyName(member)}: ${this.fieldSchema({ ...member, optional: false }, variant)}`
+        : `${this.propertyName(member)}: z.never().optional()`);
+      return `  z.object({ ${properties.join(', ')} })`;
+    });
+    return `z.union([\n${alternatives.join(',\n')}\n])`;
+  }
+
+  private taggedOneofSchema(fields: ProtoField[], oneof: ProtoOneof, variant: MessageVariant): string {
+    const alternatives = this.oneofMembers(fields, oneof).map(member =>
+      `    z.object({ case: z.literal('${this.propertyName(member)}'), value: ${this.fieldSchema({ ...member, optional: false }, variant)} })`
+    );
+    return `z.discriminatedUnion('case', [\n${alternatives.join(',\n')}\n  ]).optional()`;
+  }
+
+  private oneofMembers(fields: ProtoField[], oneof: ProtoOneof): ProtoField[] {
+    return oneof.fields
+      .map(name => fields.find(field => field.name === name))
+      .filter((field): field is ProtoField => field !== undefined);
+  }
+
+  private fieldSchema(field: ProtoField, variant: MessageVariant): string {
+    let schema = this.typeSchema(field.type, variant);
+    if (field.keyType) {
+      // The proto3 JSON mapping encodes every map key as an object key string
+      schema = `z.record(z.string(), ${schema})`;
+    } else if (field.repeated) {
+      schema = `z.array(${schema})`;
+    }
+    return field.optional ? `${schema}.optional()` : schema;
+  }
+
+  private typeSchema(protoType: string, variant: MessageVariant): string {
+    switch (protoType) {
+      case 'string':
+        return 'z.string()';
+      case 'boolean':
+      case 'bool':
+        return 'z.boolean()';
+      case 'int32':
+      case 'uint32':
+      case 'float':
+      case 'double':
+        return 'z.number()';
+      case 'int64':
+      case 'uint64':
+        if (this.options.bigintAsString) {
+          return 'z.string()';
+        }
+        return this.options.bigintAsNumber ? 'z.number()' : 'z.coerce.bigint()';
+      case 'bytes':
+        this.usesBytes = true;
+        return 'bytesSchema';
+      case 'Timestamp':
+        return this.wellKnownSchema(protoType) ?? (this.options.dateAsString ? 'z.string()' : 'z.coerce.date()');
+      default:
+        return this.wellKnownSchema(protoType) ?? this.referenceSchema(protoType, variant) ?? 'z.unknown()';
+    }
+  }
+
+  private wellKnownSchema(typeRef: string): string | undefined {
+    const tsType = this.wellKnownTypes.resolve(typeRef);
+    if (tsType === undefined) {
+      return undefined;
+    }
+    const name = wellKnownTypeName(typeRef)!;
+    return tsType === WELL_KNOWN_TYPES[name] && WELL_KNOWN_SCHEMAS[name] ? WELL_KNOWN_SCHEMAS[name] : `z.custom<${tsType}>()`;
+  }
+
+  private referenceSchema(protoType: string, variant: MessageVariant): string | undefined {
+    const name = this.typeNames.resolve(protoType);
+    const key = this.typeNames.keyOf(protoType);
+    if (!name || !key) {
+      return undefined;
+    }
+
+    const schemaName = !this.enumKeys.has(key) && variant === 'input' && this.inputVariants.has(key)
+      ? `${name}InputSchema`
+      : `${name}Schema`;
+    return this.defined.has(schemaName) ? schemaName : `z.lazy(() => ${schemaName})`;
+  }
+
+  /**
+   * Interface name of a message variant, as in types.ts
+   */
+  private interfaceName(message: ProtoMessage, variant: MessageVariant): string {
+    const name = this.typeNames.nameOf(message);
+    return variant === 'input' && this.inputVariants.has(TypeNameResolver.keyOf(message)) ? `${name}Input` : name;
+  }
+
+  private schemaName(message: ProtoMessage, variant: MessageVariant): string {
+    return `${this.interfaceName(message, variant)}Schema`;
+  }
+
+  private propertyName(field: NamedField): string {
+    return fieldPropertyName(field, this.options.fieldNaming);
+  }
+
+  private recursiveMessageKeys(messages: ProtoMessage[], enums: ProtoEnum[]): Set<string> {
+    const declarations: Array<ProtoMessage | ProtoEnum> = [...enums, ...messages];
+    return new Set(
+      messages
+        .filter(message => reachableTypeKeys(declarations, message.fields.map(field => field.type)).has(TypeNameResolver.keyOf(message)))
+        .map(message => TypeNameResolver.keyOf(message))
+    );
+  }
+
+  /**
+   * Messages after the messages their fields use, so that schemas can refer to each
+   * other directly; only cycles need `z.lazy`
+   */
+  private orderByDependency(messages: ProtoMessage[]): ProtoMessage[] {
+    const messageMap = new Map(messages.map(message => [TypeNameResolver.keyOf(message), message]));
+    const visited = new Set<string>();
+    const result: ProtoMessage[] = [];
+
+    const visit = (message: ProtoMessage): void => {
+      const key = TypeNameResolver.keyOf(message);
+      if (visited.has(key)) {
+        return;
+      }
+      visited.add(key);
+      for (const field of message.fields) {
+        const dependency = messageMap.get(this.typeNames.keyOf(field.type) ?? '');
+        if (dependency) {
+          visit(dependency);
+        }
+      }
+      result.push(message);
+    };
+
+    messages.forEach(visit);
+    return result;
+  }
+}
+
+export function createSchemaGenerator(options?: TypeMappingOptions): ZodSchemaGenerator {
+  return new ZodSchemaGenerator(options);
+}
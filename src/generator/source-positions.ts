@@ -0,0 +1,344 @@
+import type { ProtoComments, ProtoSourceLocation } from '../types/index.js';
+
+export interface SourcePosition {
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+export interface SourceDeclaration extends SourcePosition {
+  comments?: ProtoComments;
+}
+
+interface Token {
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Adjacent comments with no blank line in between, read as one block
+ */
+interface CommentBlock {
+  text: string;
+  line: number;
+  endLine: number;
+}
+
+interface Comment extends CommentBlock {
+  /** Index of the token that follows the comment */
+  next: number;
+}
+
+interface Scope {
+  /** Fully-qualified name of a message, enum or service; empty for oneofs and extends */
+  name: string;
+  kind: 'message' | 'enum' | 'service' | 'oneof' | 'extend';
+}
+
+/**
+ * Statements that never declare anything worth locating
+ */
+const SKIPPED_STATEMENTS = new Set(['syntax', 'edition', 'import', 'option', 'reserved', 'extensions']);
+
+const LABELS = new Set(['optional', 'required', 'repeated']);
+
+const WORD = /[\w.]+/y;
+
+/**
+ * Find where the messages, enums, services, methods, fields, oneofs and enum
+ * values of a .proto source are declared, keyed by fully-qualified name (enum
+ * values are keyed as `pkg.Enum.VALUE`). Positions point at the start of the
+ * declaration. Comments are attached the way protoc attaches them in
+ * SourceCodeInfo: leading, trailing and detached.
+ */
+export function scanSourcePositions(source: string): Map<string, SourceDeclaration> {
+  const { tokens, comments } = tokenize(source);
+  const positions = new Map<string, SourceDeclaration>();
+  const scopes: Scope[] = [];
+  const gaps = commentGaps(tokens, comments);
+  let packageName = '';
+  let index = 0;
+
+  const qualify = (name: string): string => {
+    const parent = [...scopes].reverse().find(scope => scope.kind !== 'oneof');
+    const prefix = parent ? parent.name : packageName;
+    return prefix ? `${prefix}.${name}` : name;
+  };
+
+  const record = (name: string, start: number): SourceDeclaration | undefined => {
+    if (positions.has(name)) {
+      return undefined;
+    }
+    const token = tokens[start]!;
+    const declaration: SourceDeclaration = { line: token.line, column: token.column };
+    const comments = leadingComments(tokens, gaps, start);
+    if (comments) {
+      declaration.comments = comments;
+    }
+    positions.set(name, declaration);
+    return declaration;
+  };
+
+  // A trailing comment follows the `;` or `{` that ends the declaration
+  const recordTrailing = (declaration: SourceDeclaration | undefined, end: number): void => {
+    const trailing = trailingComment(tokens, gaps, end);
+    if (declaration && trailing) {
+      declaration.comments = { ...declaration.comments, trailing };
+    }
+  };
+
+  // Skip to the end of the current statement, stepping over `[ ... ]` field options and
+  // `{ ... }` option values
+  const skipStatement = (): void => {
+    let depth = 0;
+    let brackets = 0;
+    while (index < tokens.length) {
+      const text = tokens[index]!.text;
+      if (text === '}' && depth === 0) {
+        // Leave the brace that closes the enclosing scope
+        return;
+      }
+      index++;
+      if (text === '[') {
+        brackets++;
+      } else if (text === ']') {
+        brackets--;
+      } else if (text === '{') {
+        depth++;
+      } else if (text === '}') {
+        if (--depth === 0 && brackets === 0) {
+          return;
+        }
+      } else if (text === ';' && depth === 0) {
+        return;
+      }
+    }
+  };
+
+  while (index < tokens.length) {
+    const token = tokens[index]!;
+    const scope = scopes[scopes.length - 1];
+
+    if (token.text === '}') {
+      scopes.pop();
+      index++;
+    } else if (token.text === ';') {
+      index++;
+    } else if (token.text === 'package' && scopes.length === 0) {
+      packageName = tokens[index + 1]?.text || '';
+      skipStatement();
+    } else if (SKIPPED_STATEMENTS.has(token.text)) {
+      skipStatement();
+    } else if (
+      (token.text === 'message' || token.text === 'enum' || token.text === 'service') &&
+      tokens[index + 2]?.text === '{'
+    ) {
+      const name = qualify(tokens[index + 1]!.text);
+      recordTrailing(record(name, index), index + 2);
+      scopes.push({ name, kind: token.text });
+      index += 3;
+    } else if (token.text === 'oneof' && tokens[index + 2]?.text === '{') {
+      // Oneof members belong to the enclosing message
+      recordTrailing(record(qualify(tokens[index + 1]!.text), index), index + 2);
+      scopes.push({ name: '', kind: 'oneof' });
+      index += 3;
+    } else if (token.text === 'extend' && tokens[index + 2]?.text === '{') {
+      // Extension fields are not located
+      scopes.push({ name: '', kind: 'extend' });
+      index += 3;
+    } else if (token.text === 'rpc' && scope?.kind === 'service') {
+      const declaration = record(`${scope.name}.${tokens[index + 1]?.text}`, index);
+      skipStatement();
+      recordTrailing(declaration, index - 1);
+    } else if (scope?.kind === 'enum') {
+      const declaration = tokens[index + 1]?.text === '=' ? record(`${scope.name}.${token.text}`, index) : undefined;
+      skipStatement();
+      recordTrailing(declaration, index - 1);
+    } else if (scope?.kind === 'message' || scope?.kind === 'oneof') {
+      const name = fieldName(tokens, index);
+      const declaration = name ? record(qualify(name), index) : undefined;
+      skipStatement();
+      recordTrailing(declaration, index - 1);
+    } else {
+      skipStatement();
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * `file:line`, as used in `@see` tags
+ */
+export function formatSourceLocation(location: ProtoSourceLocation): string {
+  return location.line ? `${location.file}:${location.line}` : location.file;
+}
+
+/**
+ * Name of the field declared by the statement at `start`: the identifier before `=`
+ */
+function fieldName(tokens: Token[], start: number): string | undefined {
+  let index = start;
+  if (LABELS.has(tokens[index]?.text || '')) {
+    index++;
+  }
+  for (; index < tokens.length; index++) {
+    const text = tokens[index]!.text;
+    if (text === '=') {
+      return tokens[index - 1]?.text;
+    }
+    if (text === ';' || text === '{' || text === '}') {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Comment blocks keyed by the index of the token that follows them
+ */
+function commentGaps(tokens: Token[], comments: Comment[]): Map<number, CommentBlock[]> {
+  const gaps = new Map<number, CommentBlock[]>();
+
+  for (const comment of comments) {
+    const blocks = gaps.get(comment.next) || [];
+    const previous = blocks[blocks.length - 1];
+    // A comment on the line of the preceding token stands alone, so that it can trail that token
+    const trailsToken = previous?.line === tokens[comment.next - 1]?.line;
+    if (previous && !trailsToken && comment.line <= previous.endLine + 1) {
+      previous.text += `\n${comment.text}`;
+      previous.endLine = comment.endLine;
+    } else {
+      blocks.push({ text: comment.text, line: comment.line, endLine: comment.endLine });
+    }
+    gaps.set(comment.next, blocks);
+  }
+
+  return gaps;
+}
+
+/**
+ * The leading comment ends on the line before the declaration; earlier blocks are detached.
+ * A block on the line of the previous token belongs to that token, not to the declaration.
+ */
+function leadingComments(tokens: Token[], gaps: Map<number, CommentBlock[]>, start: number): ProtoComments | undefined {
+  const previousLine = tokens[start - 1]?.line ?? 0;
+  const blocks = (gaps.get(start) || []).filter(block => block.line > previousLine);
+  const last = blocks[blocks.length - 1];
+  const leading = last && last.endLine >= tokens[start]!.line - 1 ? last : undefined;
+  const detached = blocks.filter(block => block !== leading).map(block => dedentComment(block.text));
+
+  const comments: ProtoComments = {};
+  if (leading) {
+    comments.leading = dedentComment(leading.text);
+  }
+  if (detached.length > 0) {
+    comments.detached = detached;
+  }
+  return comments.leading || comments.detached ? comments : undefined;
+}
+
+/**
+ * A comment on the line of the token that ends a declaration, or starting on the next
+ * line when a blank line or the end of the scope separates it from what follows.
+ * The block is taken out of the gap so that it cannot also lead the next declaration.
+ */
+function trailingComment(tokens: Token[], gaps: Map<number, CommentBlock[]>, end: number): string | undefined {
+  const endToken = tokens[end];
+  const blocks = gaps.get(end + 1);
+  const block = blocks?.[0];
+  if (!endToken || !blocks || !block) {
+    return undefined;
+  }
+
+  const nextLine = blocks[1]?.line ?? tokens[end + 1]?.line ?? Infinity;
+  const trailing = block.line === endToken.line ||
+    (block.line === endToken.line + 1 && (nextLine > block.endLine + 1 || tokens[end + 1]?.text === '}'));
+  if (!trailing) {
+    return undefined;
+  }
+
+  blocks.shift();
+  return dedentComment(block.text);
+}
+
+/**
+ * Comment text without its common indentation and surrounding blank lines, so that
+ * indented markdown such as lists and code blocks survives
+ */
+export function dedentComment(text: string): string {
+  const lines = text.split('\n').map(line => line.trimEnd());
+  const indent = Math.min(
+    ...lines.filter(line => line.length > 0).map(line => line.length - line.trimStart().length)
+  );
+  return lines
+    .map(line => line.slice(Number.isFinite(indent) ? indent : 0))
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * Text of a comment without its delimiters, and without the `*` that conventionally
+ * starts every line of a block comment
+ */
+function commentText(comment: string): string {
+  if (comment.startsWith('//')) {
+    return comment.slice(2);
+  }
+  return comment
+    .replace(/^\/\*+/, '')
+    .replace(/\*+\/$/, '')
+    .split('\n')
+    .map((line, index) => (index === 0 ? line : line.replace(/^\s*\*(?!\/)/, '')))
+    .join('\n');
+}
+
+function tokenize(source: string): { tokens: Token[]; comments: Comment[] } {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let index = 0;
+
+  const advanceTo = (end: number): void => {
+    for (; index < end; index++) {
+      if (source[index] === '\n') {
+        line++;
+        lineStart = index + 1;
+      }
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index]!;
+
+    if (/\s/.test(char)) {
+      advanceTo(index + 1);
+    } else if (source.startsWith('//', index) || source.startsWith('/*', index)) {
+      const lineComment = source.startsWith('//', index);
+      const close = lineComment ? source.indexOf('\n', index) : source.indexOf('*/', index + 2);
+      const end = close === -1 ? source.length : lineComment ? close : close + 2;
+      const start = line;
+      const text = commentText(source.slice(index, end));
+      advanceTo(end);
+      comments.push({ text, line: start, endLine: line, next: tokens.length });
+    } else if (char === '"' || char === "'") {
+      let end = index + 1;
+      while (end < source.length && source[end] !== char && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      tokens.push({ text: source.slice(index, end + 1), line, column: index - lineStart + 1 });
+      advanceTo(end + 1);
+    } else {
+      WORD.lastIndex = index;
+      const word = WORD.exec(source)?.[0];
+      const text = word || char;
+      tokens.push({ text, line, column: index - lineStart + 1 });
+      advanceTo(index + text.length);
+    }
+  }
+
+  return { tokens, comments };
+}
@@ -2,28 +2,74 @@ import type {
   ParsedSchema,
   ProtoMessage,
   ProtoField,
+  ProtoOneof,
+  ProtoEnum,
+  ProtoEnumValue,
+  ProtoSourceLocation,
+  ProtoComments,
   TypeMappingOptions
 } from '../types/index.js';
+import { TypeNameResolver } from './type-names.js';
+import { WellKnownTypeMapper } from './well-known-types.js';
+import { formatSourceLocation } from './source-positions.js';
+import { hasFieldBehavior, inputVariantKeys, isInputMessage, messageVariantShape } from './field-behavior.js';
+import type { MessageVariant } from './field-behavior.js';
+import { fieldPropertyName } from './field-names.js';
+import { deprecatedTag, deprecatedValuesNote } from './deprecation.js';
+import { generatedEnumValues } from './enum-values.js';
+import { renderJsDoc, renderLineComment } from './jsdoc.js';
+import type { NamedField } from './field-names.js';
 
 export class TypeScriptTypeGenerator {
-  // eslint-disable-next-line no-unused-vars
-  constructor(private options: TypeMappingOptions = {}) {}
+  private typeNames = new TypeNameResolver([]);
+  /** Messages that get a separate `${Name}Input` type */
+  private inputVariants = new Set<string>();
+  private wellKnownTypes: WellKnownTypeMapper;
+
+  constructor(private options: TypeMappingOptions = {}) {
+    this.wellKnownTypes = new WellKnownTypeMapper(options.wellKnownTypes);
+  }
 
   generateTypes(schema: ParsedSchema): string {
     let output = this.generateHeader();
+
+    const allMessages = schema.files.flatMap(file => file.messages);
+    const allEnums = schema.files.flatMap(file => file.enums || []);
+    this.useTypeNames(allMessages, allEnums);
+    this.inputVariants = inputVariantKeys(allMessages);
+
+    // Generate enums first so message interfaces can reference them
+    const generatedEnums = new Set<string>();
+
+    for (const protoEnum of allEnums) {
+      const key = TypeNameResolver.keyOf(protoEnum);
+      if (!generatedEnums.has(key)) {
+        output += this.generateEnum(protoEnum);
+        output += '\n';
+        generatedEnums.add(key);
+      }
+    }
     
     // Generate message interfaces
-    const allMessages = schema.files.flatMap(file => file.messages);
     const sortedMessages = this.sortMessagesByDependency(allMessages);
     
-    // Track generated interface names to avoid duplicates
+    // Track generated messages to avoid duplicates, and their names for the utility types
+    const generatedMessages = new Set<string>();
     const generatedInterfaces = new Set<string>();
     
     for (const message of sortedMessages) {
-      if (!generatedInterfaces.has(message.name)) {
+      const key = TypeNameResolver.keyOf(message);
+      if (!generatedMessages.has(key)) {
         output += this.generateMessageInterface(message);
         output += '\n';
-        generatedInterfaces.add(message.name);
+        generatedMessages.add(key);
+        generatedInterfaces.add(this.typeNames.nameOf(message));
+
+        if (this.inputVariants.has(key)) {
+          output += this.generateMessageInterface(message, 'input');
+          output += '\n';
+          generatedInterfaces.add(this.interfaceName(message, 'input'));
+        }
       }
     }
 
@@ -40,17 +86,96 @@ export class TypeScriptTypeGenerator {
 `;
   }
 
-  private generateMessageInterface(message: ProtoMessage): string {
+  private useTypeNames(messages: ProtoMessage[], enums: ProtoEnum[] = []): void {
+    this.typeNames = new TypeNameResolver([...enums, ...messages], this.options.typeNaming);
+  }
+
+  private generateEnum(protoEnum: ProtoEnum): string {
+    const enumName = this.typeNames.nameOf(protoEnum);
+    let output = '';
+
+    // grpc-gateway serializes enums by value name, so every style is string-valued
+    const values = generatedEnumValues(protoEnum, this.options.omitEnumUnspecified);
+
+    // Members of a union type cannot be documented, so its deprecated values are listed on the type
+    const isUnion = this.options.enumStyle !== 'enum' && this.options.enumStyle !== 'const';
+    output += this.generateDocComment(protoEnum, '', isUnion ? deprecatedValuesNote(values) : []);
+
+    switch (this.options.enumStyle) {
+      case 'enum':
+        output += `export enum ${enumName} {\n`;
+        output += values.map(value => this.generateEnumMember(`  ${value.name} = '${value.name}'`, value)).join(',\n');
+        output += '\n}\n';
+        break;
+      case 'const':
+        output += `export const ${enumName} = {\n`;
+        output += values.map(value => this.generateEnumMember(`  ${value.name}: '${value.name}'`, value)).join(',\n');
+        output += '\n} as const;\n\n';
+        output += `export type ${enumName} = (typeof ${enumName})[keyof typeof ${enumName}];\n`;
+        break;
+      default:
+        output += `export type ${enumName} =\n`;
+        output += values.length > 0
+          ? values.map(value => `  | '${value.name}'`).join('\n')
+          : '  never';
+        output += ';\n';
+        break;
+    }
+
+    return output;
+  }
+
+  private generateDocComment(declaration: {
+    description?: string;
+    comments?: ProtoComments;
+    example?: string;
+    deprecated?: boolean;
+    location?: ProtoSourceLocation;
+  }, indent: string = '', notes: string[] = []): string {
+    // Notes follow the description as a paragraph of their own, before the tags
+    const tags: string[] = notes.length > 0 && declaration.description ? ['', ...notes] : [...notes];
+    if (declaration.deprecated) {
+      tags.push(deprecatedTag(declaration.description));
+    }
+    if (this.options.includeSourceLocations && declaration.location) {
+      tags.push(`@see ${formatSourceLocation(declaration.location)}`);
+    }
+
+    return renderJsDoc({ ...declaration, tags }, indent);
+  }
+
+  private generateEnumMember(member: string, value: ProtoEnumValue): string {
+    return this.generateDocComment(value, '  ') + member;
+  }
+
+  private generateMessageInterface(
+    message: ProtoMessage,
+    variant: MessageVariant = isInputMessage(message) ? 'input' : 'output'
+  ): string {
     let output = '';
     
-    if (message.description) {
-      output += `/**\n * ${message.description}\n */\n`;
+    // Detached comments and examples belong to the message as declared, not to its input form
+    const inputForm = variant === 'input' && this.inputVariants.has(TypeNameResolver.keyOf(message));
+    output += this.generateDocComment(inputForm
+      ? { ...message, comments: { ...message.comments, detached: undefined }, example: undefined }
+      : message);
+
+    // Only the fields that exist on this side of the API, with their presence for it
+    const { fields, regularFields, oneofs } = messageVariantShape(message, variant);
+    const shaped: ProtoMessage = { ...message, fields };
+
+    if (oneofs.length > 0 && this.options.oneofStyle !== 'tagged') {
+      return output + this.generateOneofUnionType(shaped, regularFields, oneofs, variant);
     }
     
-    output += `export interface ${message.name} {\n`;
+    output += `export interface ${this.interfaceName(message, variant)} {\n`;
     
-    for (const field of message.fields) {
-      output += this.generateFieldProperty(field);
+    for (const field of regularFields) {
+      output += this.generateFieldProperty(field, '  ', variant);
+    }
+
+    for (const oneof of oneofs) {
+      output += this.generateTaggedOneofProperty(shaped, oneof, variant);
     }
     
     output += '}\n';
@@ -58,23 +183,107 @@ export class TypeScriptTypeGenerator {
     return output;
   }
 
-  private generateFieldProperty(field: ProtoField): string {
+  /**
+   * Emit a message with oneofs as an intersection of its regular fields and one
+   * union per oneof group, where each variant sets at most one member and marks
+   * the others as `never`
+   */
+  private generateOneofUnionType(
+    message: ProtoMessage,
+    regularFields: ProtoField[],
+    oneofs: ProtoOneof[],
+    variant: MessageVariant
+  ): string {
+    let output = `export type ${this.interfaceName(message, variant)} = {\n`;
+
+    for (const field of regularFields) {
+      output += this.generateFieldProperty(field, '  ', variant);
+    }
+
+    output += '}';
+
+    for (const oneof of oneofs) {
+      const members = oneof.fields
+        .map(name => message.fields.find(field => field.name === name))
+        .filter((field): field is ProtoField => field !== undefined);
+
+      // The last variant leaves the whole oneof unset, which is valid in proto3
+      const variants = [...members, undefined].map(selected => {
+        let alternative = '  | {\n';
+        for (const member of members) {
+          alternative += member === selected
+            ? this.generateFieldProperty({ ...member, optional: false }, '      ', variant)
+            : `      ${this.propertyName(member)}?: never;\n`;
+        }
+        alternative += '    }\n';
+        return alternative;
+      });
+
+      output += ' & (\n';
+      if (oneof.description) {
+        output += renderLineComment(oneof.description, '  ');
+      }
+      output += variants.join('');
+      output += ')';
+    }
+
+    output += ';\n';
+
+    return output;
+  }
+
+  private generateTaggedOneofProperty(message: ProtoMessage, oneof: ProtoOneof, variant: MessageVariant): string {
+    let output = '';
+
+    output += this.generateDocComment(oneof, '  ');
+    output += `  ${this.propertyName(oneof)}?:\n`;
+
+    const variants = oneof.fields
+      .map(name => message.fields.find(field => field.name === name))
+      .filter((field): field is ProtoField => field !== undefined)
+      .map(field => `    | { case: '${this.propertyName(field)}'; value: ${this.mapFieldType(field, variant)} }`);
+
+    output += variants.join('\n');
+    output += ';\n';
+
+    return output;
+  }
+
+  private generateFieldProperty(field: ProtoField, indent: string = '  ', variant: MessageVariant = 'output'): string {
     let output = '';
     
-    if (field.description) {
-      output += `  /**\n   * ${field.description}\n   */\n`;
-    }
+    // Fields are found through the `@see` of their message
+    output += this.generateDocComment({ ...field, location: undefined }, indent);
     
-    const fieldName = this.toCamelCase(field.name);
-    const fieldType = this.mapProtobufTypeToTypeScript(field.type, field.repeated);
+    const fieldName = this.propertyName(field);
+    const fieldType = this.mapFieldType(field, variant);
     const optional = field.optional ? '?' : '';
+    const readonly = variant === 'output' && hasFieldBehavior(field, 'OUTPUT_ONLY') ? 'readonly ' : '';
     
-    output += `  ${fieldName}${optional}: ${fieldType};\n`;
+    output += `${indent}${readonly}${fieldName}${optional}: ${fieldType};\n`;
     
     return output;
   }
 
-  private mapProtobufTypeToTypeScript(protoType: string, repeated: boolean): string {
+  /**
+   * Interface name of a message variant; request messages only have an input form
+   * and keep their plain name
+   */
+  private interfaceName(message: ProtoMessage, variant: MessageVariant): string {
+    const name = this.typeNames.nameOf(message);
+    return variant === 'input' && this.inputVariants.has(TypeNameResolver.keyOf(message)) ? `${name}Input` : name;
+  }
+
+  private mapFieldType(field: ProtoField, variant: MessageVariant = 'output'): string {
+    if (field.keyType) {
+      // The proto3 JSON mapping encodes every map key (including integers and bools) as an object key string
+      return `Record<string, ${this.mapProtobufTypeToTypeScript(field.type, false, variant)}>`;
+    }
+
+    return this.mapProtobufTypeToTypeScript(field.type, field.repeated, variant);
+  }
+
+  private mapProtobufTypeToTypeScript(protoType: string, repeated: boolean, variant: MessageVariant = 'output'): string {
     let tsType: string;
 
     switch (protoType) {
@@ -105,15 +314,24 @@ export class TypeScriptTypeGenerator {
         tsType = 'Uint8Array';
         break;
       case 'Timestamp':
-        tsType = this.options.dateAsString ? 'string' : 'Date';
+        tsType = this.wellKnownTypes.resolve(protoType) ?? (this.options.dateAsString ? 'string' : 'Date');
         break;
       default:
-        // Custom message type
-        tsType = protoType;
+        // Well-known, custom message or enum type
+        tsType = this.wellKnownTypes.resolve(protoType) ?? this.messageTypeName(protoType, variant) ?? protoType;
         break;
     }
 
-    return repeated ? `${tsType}[]` : tsType;
+    if (!repeated) {
+      return tsType;
+    }
+    return tsType.includes('|') ? `(${tsType})[]` : `${tsType}[]`;
+  }
+
+  private messageTypeName(protoType: string, variant: MessageVariant): string | undefined {
+    const name = this.typeNames.resolve(protoType);
+    const key = this.typeNames.keyOf(protoType);
+    return name && variant === 'input' && key && this.inputVariants.has(key) ? `${name}Input` : name;
   }
 
   private generateUtilityTypes(generatedInterfaces: Set<string>): string {
@@ -204,41 +422,43 @@ export type SortBuilder<T> = {
   }
 
   private sortMessagesByDependency(messages: ProtoMessage[]): ProtoMessage[] {
-    const messageMap = new Map(messages.map(m => [m.name, m]));
+    const messageMap = new Map(messages.map(m => [TypeNameResolver.keyOf(m), m]));
     const visited = new Set<string>();
     const visiting = new Set<string>(); // Track currently visiting nodes to detect cycles
     const result: ProtoMessage[] = [];
 
     const visit = (message: ProtoMessage): void => {
-      if (visited.has(message.name)) {
+      const key = TypeNameResolver.keyOf(message);
+      if (visited.has(key)) {
         return;
       }
 
-      // Detect circular dependency
-      if (visiting.has(message.name)) {
-        console.warn(`Circular dependency detected involving ${message.name}, skipping dependency ordering for this node`);
+      // Interfaces may refer to each other in any order, so cycles are left as they are
+      if (visiting.has(key)) {
         return;
       }
 
-      visiting.add(message.name);
+      visiting.add(key);
 
       // Visit dependencies first
       for (const field of message.fields) {
+        // Map fields carry their value type in `type`, so they are ordered after it as well
         const baseType = field.type.replace(/\[\]$/, ''); // Remove array suffix
         // Only process types that exist in our message map (ignore primitives)
-        const dependency = messageMap.get(baseType);
-        if (dependency && !visited.has(dependency.name)) {
+        const dependencyKey = this.typeNames.keyOf(baseType);
+        const dependency = dependencyKey ? messageMap.get(dependencyKey) : undefined;
+        if (dependency && !visited.has(dependencyKey!)) {
           visit(dependency);
         }
       }
 
-      visiting.delete(message.name);
-      visited.add(message.name);
+      visiting.delete(key);
+      visited.add(key);
       result.push(message);
     };
 
     for (const message of messages) {
-      if (!visited.has(message.name)) {
+      if (!visited.has(TypeNameResolver.keyOf(message))) {
         visit(message);
       }
     }
@@ -246,36 +466,44 @@ export type SortBuilder<T> = {
     return result;
   }
 
+  private propertyName(field: NamedField): string {
+    return fieldPropertyName(field, this.options.fieldNaming);
+  }
+
   private toCamelCase(str: string): string {
     return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
   }
 
-  generateFilterBuilders(messages: ProtoMessage[]): string {
+  generateFilterBuilders(messages: ProtoMessage[], enums: ProtoEnum[] = []): string {
     let output = '\n// Filter Builders\n';
     const generatedBuilders = new Set<string>();
+    this.useTypeNames(messages, enums);
 
     for (const message of messages) {
-      if (message.name.includes('Filter') && !generatedBuilders.has(message.name)) {
+      const key = TypeNameResolver.keyOf(message);
+      if (message.name.includes('Filter') && !generatedBuilders.has(key)) {
         output += this.generateFilterBuilder(message);
         output += '\n';
-        generatedBuilders.add(message.name);
+        generatedBuilders.add(key);
       }
     }
 
     return output;
   }
 
-  generateSortBuilders(messages: ProtoMessage[]): string {
+  generateSortBuilders(messages: ProtoMessage[], enums: ProtoEnum[] = []): string {
     let output = '\n// Sort Builders\n';
     const generatedBuilders = new Set<string>();
+    this.useTypeNames(messages, enums);
 
     for (const message of messages) {
-      if (message.name.includes('Sort') && !generatedBuilders.has(message.name)) {
+      const key = TypeNameResolver.keyOf(message);
+      if (message.name.includes('Sort') && !generatedBuilders.has(key)) {
         // Find if this Sort message is used as repeated in any other message
-        const isRepeated = this.isSortMessageRepeated(message.name, messages);
+        const isRepeated = this.isSortMessageRepeated(key, messages);
         output += this.generateSortBuilder(message, isRepeated);
         output += '\n';
-        generatedBuilders.add(message.name);
+        generatedBuilders.add(key);
       }
     }
 
@@ -283,8 +511,8 @@ export type SortBuilder<T> = {
   }
 
   private generateFilterBuilder(message: ProtoMessage): string {
-    const builderName = `${message.name}Builder`;
-    const objectName = message.name;
+    const objectName = this.typeNames.nameOf(message);
+    const builderName = `${objectName}Builder`;
     
     let output = `export class ${builderName} {\n`;
     output += `  private filter: Partial<${objectName}> = {};\n\n`;
@@ -292,8 +520,8 @@ export type SortBuilder<T> = {
     const generatedMethods = new Set<string>();
 
     for (const field of message.fields) {
-      const fieldName = this.toCamelCase(field.name);
-      const fieldType = this.mapProtobufTypeToTypeScript(field.type, field.repeated);
+      const fieldName = this.propertyName(field);
+      const fieldType = this.mapFieldType(field);
       
       // Check if this field already has a suffix (Like, After, Before)
       const hasLikeSuffix = fieldName.endsWith('Like');
@@ -361,7 +589,7 @@ export type SortBuilder<T> = {
   }
 
   private generateSortBuilder(message: ProtoMessage, isRepeated: boolean = false): string {
-    const builderName = `${message.name}Builder`;
+    const builderName = `${this.typeNames.nameOf(message)}Builder`;
 
     let output = `export class ${builderName} {\n`;
 
@@ -410,11 +638,11 @@ export type SortBuilder<T> = {
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
 
-  private isSortMessageRepeated(sortMessageName: string, messages: ProtoMessage[]): boolean {
+  private isSortMessageRepeated(sortMessageKey: string, messages: ProtoMessage[]): boolean {
     // Check if this Sort message is used as a repeated field in any other message
     for (const message of messages) {
       for (const field of message.fields) {
-        if (field.type === sortMessageName && field.repeated) {
+        if (this.typeNames.keyOf(field.type) === sortMessageKey && field.repeated) {
           return true;
         }
       }
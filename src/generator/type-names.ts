@@ -0,0 +1,148 @@
+export type TypeNamingStrategy = 'auto' | 'qualified';
+
+export interface NamedType {
+  name: string;
+  fullName?: string;
+  package?: string;
+}
+
+/**
+ * Maps protobuf type references to collision-free TypeScript identifiers.
+ *
+ * Types are keyed by their fully-qualified proto name. With the `auto`
+ * strategy a type keeps its short name unless another package declares a
+ * type with the same name, in which case every colliding type is prefixed
+ * with its package (`billing.v1.Invoice` -> `BillingV1_Invoice`). The
+ * `qualified` strategy always prefixes the package. Nested declarations
+ * are flattened with their parents' names (`Order.LineItem` -> `Order_LineItem`).
+ */
+export class TypeNameResolver {
+  private names = new Map<string, string>();
+  private shortNames = new Map<string, string | null>();
+
+  constructor(types: NamedType[], strategy: TypeNamingStrategy = 'auto') {
+    const unique = new Map<string, NamedType>();
+    for (const type of types) {
+      const key = TypeNameResolver.keyOf(type);
+      if (!unique.has(key)) {
+        unique.set(key, type);
+      }
+    }
+
+    const baseNameCounts = new Map<string, number>();
+    for (const type of unique.values()) {
+      const baseName = this.baseName(type);
+      baseNameCounts.set(baseName, (baseNameCounts.get(baseName) || 0) + 1);
+    }
+
+    for (const [key, type] of unique) {
+      const baseName = this.baseName(type);
+      const qualify = strategy === 'qualified' || baseNameCounts.get(baseName)! > 1;
+      this.names.set(key, qualify && type.package ? `${this.packagePrefix(type.package)}_${baseName}` : baseName);
+
+      // Short names stay resolvable as long as they are unambiguous
+      const existing = this.shortNames.get(type.name);
+      this.shortNames.set(type.name, existing === undefined || existing === key ? key : null);
+    }
+  }
+
+  /**
+   * Canonical key of a declared type
+   */
+  static keyOf(type: NamedType): string {
+    return type.fullName || type.name;
+  }
+
+  /**
+   * Canonical key of a referenced type, accepting fully-qualified or short names
+   */
+  keyOf(typeRef: string): string | undefined {
+    const ref = typeRef.replace(/^\./, '');
+    if (this.names.has(ref)) {
+      return ref;
+    }
+    return this.shortNames.get(ref) ?? undefined;
+  }
+
+  /**
+   * TypeScript identifier for a type reference, or undefined for unknown types
+   */
+  resolve(typeRef: string): string | undefined {
+    const key = this.keyOf(typeRef);
+    return key ? this.names.get(key) : undefined;
+  }
+
+  /**
+   * TypeScript identifier for a declared type
+   */
+  nameOf(type: NamedType): string {
+    return this.names.get(TypeNameResolver.keyOf(type)) ?? type.name;
+  }
+
+  private baseName(type: NamedType): string {
+    if (!type.fullName) {
+      return type.name;
+    }
+    const relativeName = type.package && type.fullName.startsWith(`${type.package}.`)
+      ? type.fullName.slice(type.package.length + 1)
+      : type.fullName;
+    return relativeName.replace(/\./g, '_');
+  }
+
+  private packagePrefix(pkg: string): string {
+    return pkg
+      .split(/[._]/)
+      .filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+}
+
+/**
+ * Keys of the types reachable from the given type references, following the fields
+ * of messages. Unknown references, such as scalars, are skipped.
+ */
+export function reachableTypeKeys(
+  types: Array<NamedType & { fields?: Array<{ type: string }> }>,
+  typeRefs: string[]
+): Set<string> {
+  const typeNames = new TypeNameResolver(types);
+  const byKey = new Map(types.map(type => [TypeNameResolver.keyOf(type), type]));
+  const reachable = new Set<string>();
+  const pending = [...typeRefs];
+
+  while (pending.length > 0) {
+    const key = typeNames.keyOf(pending.pop()!);
+    if (key && !reachable.has(key)) {
+      reachable.add(key);
+      pending.push(...(byKey.get(key)?.fields?.map(field => field.type) || []));
+    }
+  }
+
+  return reachable;
+}
+
+/**
+ * Keys of the types that match and of the types whose fields lead to them, directly or
+ * through other types. The set grows until it is stable, which also handles recursive messages.
+ */
+export function dependentTypeKeys<T extends NamedType & { fields: Array<{ type: string }> }>(
+  types: T[],
+  typeNames: TypeNameResolver,
+  matches: (_type: T) => boolean,
+  fieldsOf: (_type: T) => Array<{ type: string }> = type => type.fields
+): Set<string> {
+  const keys = new Set(types.filter(matches).map(type => TypeNameResolver.keyOf(type)));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const type of types) {
+      const key = TypeNameResolver.keyOf(type);
+      if (!keys.has(key) && fieldsOf(type).some(field => keys.has(typeNames.keyOf(field.type) ?? field.type))) {
+        keys.add(key);
+        changed = true;
+      }
+    }
+  }
+  return keys;
+}
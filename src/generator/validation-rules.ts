@@ -0,0 +1,121 @@
+import type { FieldRules, StringFormat } from '../types/index.js';
+
+const NUMBER_KINDS = [
+  'float', 'double', 'int32', 'int64', 'uint32', 'uint64',
+  'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64'
+];
+
+const STRING_FORMATS: StringFormat[] = ['email', 'hostname', 'ip', 'ipv4', 'ipv6', 'uri', 'uri_ref', 'address', 'uuid'];
+
+/**
+ * Normalize the value of a `buf.validate.field` or `validate.rules` option. Numbers of enum
+ * constraints become value names of `enumValues`, and `defined_only` becomes an `in` list.
+ * Constraints without a counterpart, like CEL expressions and bytes rules, are left out.
+ */
+export function normalizeFieldRules(option: any, enumValues?: Record<string, number>): FieldRules | undefined {
+  if (!option || typeof option !== 'object' || isIgnore(option.ignore, 'IGNORE_ALWAYS', 3)) {
+    return undefined;
+  }
+
+  const rules: FieldRules = {};
+
+  if (option.required === true || option.message?.required === true) {
+    rules.required = true;
+  }
+  if (isIgnore(option.ignore, 'IGNORE_IF_ZERO_VALUE', 1)) {
+    rules.ignoreEmpty = true;
+  }
+
+  const typeRules = ['string', 'bool', 'enum', 'repeated', 'map', ...NUMBER_KINDS]
+    .find(kind => option[kind] && typeof option[kind] === 'object');
+  const value = typeRules ? option[typeRules] : {};
+  if (value.ignore_empty === true) {
+    rules.ignoreEmpty = true;
+  }
+
+  if (typeRules === 'string') {
+    Object.assign(rules, {
+      const: value.const,
+      in: list(value.in),
+      notIn: list(value.not_in),
+      len: number(value.len),
+      minLen: number(value.min_len),
+      maxLen: number(value.max_len),
+      pattern: value.pattern,
+      prefix: value.prefix,
+      suffix: value.suffix,
+      contains: value.contains,
+      notContains: value.not_contains,
+      format: STRING_FORMATS.find(format => value[format] === true)
+    });
+  } else if (typeRules === 'bool') {
+    rules.const = value.const;
+  } else if (typeRules === 'enum') {
+    const names = (values: unknown[] | undefined): string[] | undefined =>
+      values && values.flatMap(item => enumNames(item, enumValues));
+    rules.const = value.const !== undefined ? enumNames(value.const, enumValues)[0] : undefined;
+    rules.in = names(list(value.in)) ?? (value.defined_only === true && enumValues ? Object.keys(enumValues) : undefined);
+    rules.notIn = names(list(value.not_in));
+  } else if (typeRules === 'repeated') {
+    Object.assign(rules, {
+      minItems: number(value.min_items),
+      maxItems: number(value.max_items),
+      unique: value.unique === true || undefined,
+      items: normalizeFieldRules(value.items, enumValues)
+    });
+  } else if (typeRules === 'map') {
+    Object.assign(rules, {
+      minItems: number(value.min_pairs),
+      maxItems: number(value.max_pairs),
+      keys: normalizeFieldRules(value.keys),
+      values: normalizeFieldRules(value.values, enumValues)
+    });
+  } else if (typeRules) {
+    Object.assign(rules, {
+      const: number(value.const),
+      in: list(value.in)?.map(item => number(item)!),
+      notIn: list(value.not_in)?.map(item => number(item)!),
+      gt: number(value.gt),
+      gte: number(value.gte),
+      lt: number(value.lt),
+      lte: number(value.lte)
+    });
+  }
+
+  for (const key of Object.keys(rules) as Array<keyof FieldRules>) {
+    if (rules[key] === undefined) {
+      delete rules[key];
+    }
+  }
+  return Object.keys(rules).length > 0 ? rules : undefined;
+}
+
+/**
+ * `ignore` is an enum value name in .proto files and JSON, and may be a number elsewhere
+ */
+function isIgnore(ignore: unknown, name: string, value: number): boolean {
+  return ignore === name || ignore === value;
+}
+
+/**
+ * Repeated option values are a single value when set once, and empty arrays in descriptor sets
+ */
+function list(value: unknown): unknown[] | undefined {
+  const values = value === undefined || value === null ? [] : ([] as unknown[]).concat(value);
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * 64-bit option values are strings or Longs outside of .proto sources
+ */
+function number(value: unknown): number | undefined {
+  return value === undefined || value === null ? undefined : Number(String(value));
+}
+
+function enumNames(value: unknown, enumValues: Record<string, number> | undefined): string[] {
+  if (typeof value === 'string' || !enumValues) {
+    return [String(value)];
+  }
+  const names = Object.keys(enumValues).filter(name => enumValues[name] === Number(value));
+  return names.length > 0 ? names : [String(value)];
+}
@@ -0,0 +1,195 @@
+import type { ParsedSchema, ProtoEnum, ProtoField, ProtoMessage, TypeMappingOptions } from '../types/index.js';
+import type { MessageRules, ValidationRules } from '../runtime/validation.js';
+import { TypeNameResolver, dependentTypeKeys } from './type-names.js';
+import { inputVariantKeys, isFieldInVariant } from './field-behavior.js';
+import { fieldPropertyName } from './field-names.js';
+
+const SCALAR_ZERO_VALUES: Readonly<Record<string, string | number | boolean>> = {
+  string: '',
+  bytes: '',
+  bool: false,
+  boolean: false,
+  double: 0,
+  float: 0,
+  int32: 0,
+  int64: 0,
+  uint32: 0,
+  uint64: 0,
+  sint32: 0,
+  sint64: 0,
+  fixed32: 0,
+  fixed64: 0,
+  sfixed32: 0,
+  sfixed64: 0
+};
+
+/**
+ * Constraints of every message a client sends that has protovalidate rules, directly or
+ * through its message fields, keyed by generated type name. Output-only fields are never
+ * sent, so their rules are left out.
+ */
+export function buildValidationRules(
+  messages: ProtoMessage[],
+  typeNames: TypeNameResolver,
+  options: Pick<TypeMappingOptions, 'oneofStyle' | 'fieldNaming'> = {},
+  enums: ProtoEnum[] = []
+): ValidationRules {
+  const sentFields = (message: ProtoMessage) => message.fields.filter(field => isFieldInVariant(field, 'input'));
+  const hasRules = (message: ProtoMessage): boolean =>
+    sentFields(message).some(field => field.rules) || (message.oneofs || []).some(oneof => oneof.required);
+
+  const affected = dependentTypeKeys(messages, typeNames, hasRules, sentFields);
+  const isAffected = (typeRef: string): boolean => affected.has(typeNames.keyOf(typeRef) ?? typeRef);
+
+  const rules: ValidationRules = {};
+
+  for (const message of messages.filter(candidate => affected.has(TypeNameResolver.keyOf(candidate)))) {
+    const messageRules: MessageRules = {};
+    const propertyName = (name: string): string =>
+      fieldPropertyName(message.fields.find(field => field.name === name) || { name }, options.fieldNaming);
+
+    for (const field of sentFields(message)) {
+      if (field.rules) {
+        messageRules.fields = { ...messageRules.fields, [propertyName(field.name)]: field.rules };
+        const zero = zeroValue(field, typeNames, enums);
+        if (zero !== undefined) {
+          messageRules.zeroValues = { ...messageRules.zeroValues, [propertyName(field.name)]: zero };
+        }
+      }
+      if (isAffected(field.type)) {
+        const target = field.keyType ? 'mapMessages' : 'messages';
+        messageRules[target] = { ...messageRules[target], [propertyName(field.name)]: typeNames.resolve(field.type)! };
+      }
+    }
+
+    for (const oneof of message.oneofs || []) {
+      const members = oneof.fields.filter(name => sentFields(message).some(field => field.name === name));
+      if (oneof.required && members.length > 0) {
+        messageRules.requiredOneofs = {
+          ...messageRules.requiredOneofs,
+          [fieldPropertyName(oneof, options.fieldNaming)]: members.map(propertyName)
+        };
+      }
+      if (options.oneofStyle === 'tagged' && members.length > 0) {
+        messageRules.taggedOneofs = [...(messageRules.taggedOneofs || []), fieldPropertyName(oneof, options.fieldNaming)];
+      }
+    }
+
+    rules[typeNames.nameOf(message)] = messageRules;
+  }
+
+  return rules;
+}
+
+/**
+ * The value the server sees for an unset field without explicit presence; optional and
+ * oneof fields and singular message fields have presence, so they have none
+ */
+function zeroValue(field: ProtoField, typeNames: TypeNameResolver, enums: ProtoEnum[]): unknown {
+  if (field.keyType) {
+    return {};
+  }
+  if (field.repeated) {
+    return [];
+  }
+  if (field.optional || field.oneof) {
+    return undefined;
+  }
+  if (field.type in SCALAR_ZERO_VALUES) {
+    return SCALAR_ZERO_VALUES[field.type];
+  }
+  const protoEnum = enums.find(candidate => TypeNameResolver.keyOf(candidate) === typeNames.keyOf(field.type));
+  return protoEnum?.values.find(value => value.number === 0)?.name;
+}
+
+/**
+ * Generates `validators.ts`: the constraints of `buildValidationRules` as a table, and a
+ * `validate${Name}` function per message returning an ErrorDetail for every violation
+ */
+export class ValidatorGenerator {
+  // eslint-disable-next-line no-unused-vars
+  constructor(private options: TypeMappingOptions = {}) {}
+
+  generateValidators(schema: ParsedSchema): string {
+    const messages = schema.files.flatMap(file => file.messages);
+    const enums = schema.files.flatMap(file => file.enums || []);
+    const typeNames = new TypeNameResolver([...enums, ...messages], this.options.typeNaming);
+    const inputVariants = inputVariantKeys(messages);
+    const rules = buildValidationRules(messages, typeNames, this.options, enums);
+
+    let output = this.generateHeader();
+    output += this.generateRulesTable(rules);
+
+    for (const message of messages) {
+      const typeName = typeNames.nameOf(message);
+      if (rules[typeName]) {
+        output += '\n';
+        output += this.generateValidateFunction(typeName, inputVariants.has(TypeNameResolver.keyOf(message)));
+      }
+    }
+
+    return output;
+  }
+
+  private generateHeader(): string {
+    return `// This file is auto-generated. Do not edit manually.
+// Generated request validators from protovalidate constraints
+
+import type { ErrorDetail, ValidationRules } from 'proto2fetch/runtime';
+import { validateMessage } from 'proto2fetch/runtime';
+import * as Types from './types.js';
+
+`;
+  }
+
+  private generateRulesTable(rules: ValidationRules): string {
+    const entries = Object.entries(rules).map(([typeName, messageRules]) => {
+      const sections = Object.entries(messageRules).map(([section, value]) => {
+        if (section !== 'fields') {
+          return `    ${section}: ${this.literal(value)}`;
+        }
+        const fields = Object.entries(value).map(([field, fieldRules]) => `      ${this.key(field)}: ${this.literal(fieldRules)}`);
+        return `    fields: {\n${fields.join(',\n')}\n    }`;
+      });
+      return `  ${typeName}: {\n${sections.join(',\n')}\n  }`;
+    });
+
+    return entries.length > 0
+      ? `export const validationRules: ValidationRules = {\n${entries.join(',\n')}\n};\n`
+      : 'export const validationRules: ValidationRules = {};\n';
+  }
+
+  private generateValidateFunction(typeName: string, hasInputVariant: boolean): string {
+    const valueType = hasInputVariant ? `Types.${typeName}Input` : `Types.${typeName}`;
+    let output = `/**\n * Violations of the ${typeName} constraints, empty if the value is valid\n */\n`;
+    output += `export function validate${typeName}(value: ${valueType}): ErrorDetail[] {\n`;
+    output += `  return validateMessage(value, '${typeName}', validationRules);\n`;
+    output += '}\n';
+
+    return output;
+  }
+
+  private literal(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.literal(item)).join(', ')}]`;
+    }
+    if (value && typeof value === 'object' && Object.keys(value).length === 0) {
+      return '{}';
+    }
+    if (value && typeof value === 'object') {
+      return `{ ${Object.entries(value).map(([key, item]) => `${this.key(key)}: ${this.literal(item)}`).join(', ')} }`;
+    }
+    if (typeof value === 'string') {
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+    }
+    return String(value);
+  }
+
+  private key(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : this.literal(name);
+  }
+}
+
+export function createValidatorGenerator(options?: TypeMappingOptions): ValidatorGenerator {
+  return new ValidatorGenerator(options);
+}
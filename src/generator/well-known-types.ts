@@ -0,0 +1,60 @@
+const WELL_KNOWN_PACKAGE = 'google.protobuf';
+
+/**
+ * TypeScript types matching the canonical proto3 JSON mapping of the
+ * google.protobuf well-known types. Timestamp is not listed here because its
+ * representation follows the `dateType` option.
+ */
+export const WELL_KNOWN_TYPES: Readonly<Record<string, string>> = {
+  Duration: 'string',
+  Empty: 'Record<string, never>',
+  Struct: 'Record<string, unknown>',
+  Value: 'unknown',
+  ListValue: 'unknown[]',
+  NullValue: 'null',
+  Any: "{ '@type': string; [key: string]: unknown }",
+  FieldMask: 'string',
+  DoubleValue: 'number | null',
+  FloatValue: 'number | null',
+  Int64Value: 'string | null',
+  UInt64Value: 'string | null',
+  Int32Value: 'number | null',
+  UInt32Value: 'number | null',
+  BoolValue: 'boolean | null',
+  StringValue: 'string | null',
+  BytesValue: 'string | null'
+};
+
+/**
+ * Short name of a google.protobuf type reference, e.g. `google.protobuf.Duration` -> `Duration`
+ */
+export function wellKnownTypeName(typeRef: string): string | undefined {
+  const ref = typeRef.replace(/^\./, '');
+  if (ref === 'Timestamp') {
+    return ref;
+  }
+  return ref.startsWith(`${WELL_KNOWN_PACKAGE}.`) ? ref.slice(WELL_KNOWN_PACKAGE.length + 1) : undefined;
+}
+
+/**
+ * Resolves well-known type references to TypeScript types, applying user
+ * overrides keyed by either short (`Duration`) or full (`google.protobuf.Duration`) name
+ */
+export class WellKnownTypeMapper {
+  private types: Record<string, string>;
+
+  constructor(overrides: Record<string, string> = {}) {
+    this.types = { ...WELL_KNOWN_TYPES };
+    for (const [name, tsType] of Object.entries(overrides)) {
+      this.types[wellKnownTypeName(name) ?? name] = tsType;
+    }
+  }
+
+  /**
+   * TypeScript type for a well-known type reference, or undefined for any other type
+   */
+  resolve(typeRef: string): string | undefined {
+    const name = wellKnownTypeName(typeRef);
+    return name ? this.types[name] : undefined;
+  }
+}
@@ -0,0 +1,26 @@
+import { Buffer } from 'buffer';
+import { runPlugin } from './generator/plugin.js';
+
+/**
+ * protoc-gen-proto2fetch: reads a CodeGeneratorRequest from stdin and writes
+ * the CodeGeneratorResponse to stdout
+ */
+async function main(): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const response = await runPlugin(Buffer.concat(chunks));
+  process.stdout.write(response);
+}
+
+// Run plugin if called directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Unexpected error:', error);
+    process.exit(1);
+  });
+}
+
+export default main;
@@ -3,6 +3,7 @@ import type { Options as KyOptions } from 'ky';
 import type { 
   APIClientConfig, 
   RequestOptions,
+  SearchParamsOptions,
   APIErrorResponse 
 } from '../types/index.js';
 import { APIError } from './error.js';
@@ -15,7 +16,7 @@ export interface APIClient {
     _data?: any,
     _options?: RequestOptions
   ): Promise<T>;
-  objectToSearchParams(_obj: Record<string, any>): URLSearchParams;
+  objectToSearchParams(_obj: Record<string, any>, _options?: SearchParamsOptions): URLSearchParams;
   updateAuthToken(_token: string): void;
   updateAuthProvider(_provider: AuthProvider): void;
   clearAuthToken(): void;
@@ -97,8 +98,9 @@ export class KyAPIClient implements APIClient {
     }
   }
 
-  objectToSearchParams(obj: Record<string, any>): URLSearchParams {
+  objectToSearchParams(obj: Record<string, any>, options: SearchParamsOptions = {}): URLSearchParams {
     const params = new URLSearchParams();
+    const mapFields = new Set(options.mapFields);
     
     for (const [key, value] of Object.entries(obj)) {
       if (value !== undefined && value !== null) {
@@ -113,9 +115,12 @@ export class KyAPIClient implements APIClient {
               params.append(key, String(item));
             }
           });
+        } else if (typeof value === 'object' && mapFields.has(key)) {
+          // Handle map fields the way grpc-gateway expects: labels[env]=prod
+          this.appendMapEntries(value, key, params);
         } else if (typeof value === 'object') {
           // Handle nested objects (flatten them)
-          this.flattenObject(value, key, params);
+          this.flattenObject(value, key, params, mapFields, key);
         } else {
           params.append(key, String(value));
         }
@@ -212,10 +217,13 @@ export class KyAPIClient implements APIClient {
   private flattenObject(
     obj: Record<string, any>, 
     prefix: string, 
-    params: URLSearchParams
+    params: URLSearchParams,
+    mapFields?: Set<string>,
+    fieldPath?: string
   ): void {
     for (const [key, value] of Object.entries(obj)) {
       const fullKey = `${prefix}.${key}`;
+      const childPath = fieldPath ? `${fieldPath}.${key}` : undefined;
       
       if (value !== undefined && value !== null) {
         if (Array.isArray(value)) {
@@ -228,8 +236,10 @@ export class KyAPIClient implements APIClient {
               params.append(fullKey, String(item));
             }
           });
+        } else if (typeof value === 'object' && childPath && mapFields?.has(childPath)) {
+          this.appendMapEntries(value, fullKey, params);
         } else if (typeof value === 'object') {
-          this.flattenObject(value, fullKey, params);
+          this.flattenObject(value, fullKey, params, mapFields, childPath);
         } else {
           params.append(fullKey, String(value));
         }
@@ -237,6 +247,26 @@ export class KyAPIClient implements APIClient {
     }
   }
 
+  private appendMapEntries(
+    map: Record<string, any>,
+    prefix: string,
+    params: URLSearchParams
+  ): void {
+    for (const [mapKey, value] of Object.entries(map)) {
+      const entryKey = `${prefix}[${mapKey}]`;
+
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      if (typeof value === 'object' && !Array.isArray(value)) {
+        this.flattenObject(value, entryKey, params);
+      } else {
+        params.append(entryKey, String(value));
+      }
+    }
+  }
+
   private async handleError(error: any): Promise<APIError> {
     if (this.config.debug) {
       console.error('[proto2fetch] Request error:', error);
@@ -8,6 +8,12 @@ export {
   RetryHandler 
 } from './error.js';
 
+export { packOneofs, unpackOneofs } from './oneof.js';
+export { encodePathVariable, omitFields } from './path.js';
+export { assertValid, validateMessage } from './validation.js';
+export type { OneofDescriptors, OneofMessageDescriptor } from './oneof.js';
+export type { MessageRules, ValidationRules } from './validation.js';
+
 export { 
   SimpleAuth,
   JWTAuth,
@@ -23,6 +29,7 @@ export type {
 export type {
   APIClientConfig,
   RequestOptions,
+  SearchParamsOptions,
   CacheConfig,
   RequestHook,
   RetryHook,
@@ -30,5 +37,7 @@ export type {
   ResponseHook,
   PaginatedResponse,
   ErrorDetail,
-  APIErrorResponse
+  APIErrorResponse,
+  FieldRules,
+  StringFormat
 } from '../types/index.js';
\ No newline at end of file
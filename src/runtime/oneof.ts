@@ -0,0 +1,87 @@
+/**
+ * Describes where oneof groups live inside a message, so tagged
+ * `{ case, value }` objects can be converted to and from the proto3 JSON
+ * wire format, which sets the member field directly.
+ */
+export interface OneofMessageDescriptor {
+  /** Oneof property name -> member property names */
+  oneofs?: Record<string, string[]>;
+  /** Property name -> message type of singular or repeated fields that contain oneofs */
+  fields?: Record<string, string>;
+  /** Property name -> message type of map values that contain oneofs */
+  mapFields?: Record<string, string>;
+}
+
+export type OneofDescriptors = Record<string, OneofMessageDescriptor>;
+
+type Converter = (_value: any, _typeName: string, _descriptors: OneofDescriptors) => any;
+
+/**
+ * Convert tagged oneof properties into the member fields expected on the wire
+ */
+export function packOneofs<T = any>(value: any, typeName: string, descriptors: OneofDescriptors): T {
+  return convertMessage(value, typeName, descriptors, packOneofs, (result, oneofName) => {
+    const tagged = result[oneofName];
+    delete result[oneofName];
+    if (tagged && typeof tagged === 'object' && typeof tagged.case === 'string') {
+      result[tagged.case] = tagged.value;
+    }
+  });
+}
+
+/**
+ * Convert member fields received from the wire into tagged oneof properties
+ */
+export function unpackOneofs<T = any>(value: any, typeName: string, descriptors: OneofDescriptors): T {
+  return convertMessage(value, typeName, descriptors, unpackOneofs, (result, oneofName, members) => {
+    const selected = members.find(member => result[member] !== undefined && result[member] !== null);
+    for (const member of members) {
+      if (member !== selected) {
+        delete result[member];
+      }
+    }
+    if (selected) {
+      result[oneofName] = { case: selected, value: result[selected] };
+      delete result[selected];
+    }
+  });
+}
+
+function convertMessage(
+  value: any,
+  typeName: string,
+  descriptors: OneofDescriptors,
+  convert: Converter,
+  convertOneof: (_result: Record<string, any>, _oneofName: string, _members: string[]) => void
+): any {
+  const descriptor = descriptors[typeName];
+  if (!descriptor || !value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const result: Record<string, any> = { ...value };
+
+  for (const [field, fieldType] of Object.entries(descriptor.fields || {})) {
+    const fieldValue = result[field];
+    if (Array.isArray(fieldValue)) {
+      result[field] = fieldValue.map(item => convert(item, fieldType, descriptors));
+    } else if (fieldValue !== undefined && fieldValue !== null) {
+      result[field] = convert(fieldValue, fieldType, descriptors);
+    }
+  }
+
+  for (const [field, valueType] of Object.entries(descriptor.mapFields || {})) {
+    const map = result[field];
+    if (map && typeof map === 'object') {
+      result[field] = Object.fromEntries(
+        Object.entries(map).map(([key, item]) => [key, convert(item, valueType, descriptors)])
+      );
+    }
+  }
+
+  for (const [oneofName, members] of Object.entries(descriptor.oneofs || {})) {
+    convertOneof(result, oneofName, members);
+  }
+
+  return result;
+}
@@ -0,0 +1,72 @@
+import { ErrorUtils } from './error.js';
+
+/**
+ * Expand a path template variable. Plain `{field}` variables are encoded as a
+ * single segment; variables with a `=pattern` are checked against the pattern
+ * and encoded segment by segment so their `/` separators are kept.
+ */
+export function encodePathVariable(value: unknown, field: string, pattern?: string): string {
+  if (value === undefined || value === null || value === '') {
+    throw ErrorUtils.validationError(`Missing path parameter "${field}"`, [
+      { field, message: 'is required' }
+    ]);
+  }
+
+  const stringValue = String(value);
+  if (!pattern || pattern === '*') {
+    return encodeURIComponent(stringValue);
+  }
+
+  if (!patternToRegExp(pattern).test(stringValue)) {
+    throw ErrorUtils.validationError(`Path parameter "${field}" does not match "${pattern}"`, [
+      { field, message: `must match ${pattern}` }
+    ]);
+  }
+
+  return stringValue.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Copy an object without the given (dot-separated) field paths
+ */
+export function omitFields<T = any>(value: any, fieldPaths: string[]): T {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, any> = { ...value };
+  const nested = new Map<string, string[]>();
+
+  for (const fieldPath of fieldPaths) {
+    const [head, ...rest] = fieldPath.split('.');
+    if (!head) {
+      continue;
+    }
+    if (rest.length === 0) {
+      delete result[head];
+    } else {
+      nested.set(head, [...(nested.get(head) || []), rest.join('.')]);
+    }
+  }
+
+  for (const [field, paths] of nested) {
+    if (field in result) {
+      result[field] = omitFields(result[field], paths);
+    }
+  }
+
+  return result as T;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const segments = pattern.split('/').map(segment => {
+    if (segment === '**') {
+      return '.+';
+    }
+    if (segment === '*') {
+      return '[^/]+';
+    }
+    return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  });
+  return new RegExp(`^${segments.join('/')}$`);
+}
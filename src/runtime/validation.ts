@@ -0,0 +1,209 @@
+import type { ErrorDetail, FieldRules, StringFormat } from '../types/index.js';
+import { ErrorUtils } from './error.js';
+
+/**
+ * Constraints of a message, from its protovalidate or protoc-gen-validate rules,
+ * keyed by property name so requests can be checked before they are sent
+ */
+export interface MessageRules {
+  /** Property name -> constraints of the field */
+  fields?: Record<string, FieldRules>;
+  /** Property name -> message type of singular or repeated fields whose messages have constraints */
+  messages?: Record<string, string>;
+  /** Property name -> message type of map values that have constraints */
+  mapMessages?: Record<string, string>;
+  /** Oneof property name -> member property names, for oneofs that require a member */
+  requiredOneofs?: Record<string, string[]>;
+  /** Oneof properties holding tagged `{ case, value }` objects */
+  taggedOneofs?: string[];
+  /** Property name -> value the server checks instead when a constrained field without explicit presence is unset */
+  zeroValues?: Record<string, unknown>;
+}
+
+export type ValidationRules = Record<string, MessageRules>;
+
+const EMAIL = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+const HOSTNAME = /^(?=.{1,253}\.?$)[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*\.?$/;
+const IPV4 = /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const UUID = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+const isIPv6 = (value: string): boolean => /^[0-9a-fA-F:.]+$/.test(value) && value.includes(':') && isURL(`http://[${value}]`);
+const isIP = (value: string): boolean => IPV4.test(value) || isIPv6(value);
+
+const FORMATS: Record<StringFormat, [(_value: string) => boolean, string]> = {
+  email: [value => EMAIL.test(value), 'must be a valid email address'],
+  hostname: [value => HOSTNAME.test(value), 'must be a valid hostname'],
+  ip: [isIP, 'must be a valid IP address'],
+  ipv4: [value => IPV4.test(value), 'must be a valid IPv4 address'],
+  ipv6: [isIPv6, 'must be a valid IPv6 address'],
+  uri: [value => isURL(value), 'must be a valid URI'],
+  uri_ref: [value => !/\s/.test(value) && isURL(value, 'http://localhost'), 'must be a valid URI reference'],
+  address: [value => HOSTNAME.test(value) || isIP(value), 'must be a valid hostname or IP address'],
+  uuid: [value => UUID.test(value), 'must be a valid UUID']
+};
+
+/**
+ * Check a message against its constraints, returning a detail per violation under
+ * the property path of the field, e.g. `user.emails[0]`. Unset fields are checked as
+ * their zero value if they have one in `zeroValues`, otherwise only for `required`.
+ */
+export function validateMessage(value: any, typeName: string, rules: ValidationRules, path: string = ''): ErrorDetail[] {
+  const messageRules = rules[typeName];
+  if (!messageRules || !value || typeof value !== 'object' || Array.isArray(value)) {
+    return [];
+  }
+
+  const message: Record<string, any> = { ...value };
+  for (const oneofName of messageRules.taggedOneofs || []) {
+    const tagged = message[oneofName];
+    if (tagged && typeof tagged === 'object' && typeof tagged.case === 'string') {
+      message[tagged.case] = tagged.value;
+    }
+  }
+
+  const details: ErrorDetail[] = [];
+
+  for (const [oneofName, members] of Object.entries(messageRules.requiredOneofs || {})) {
+    if (!members.some(member => message[member] !== undefined && message[member] !== null)) {
+      details.push({ field: joinPath(path, oneofName), message: 'is required' });
+    }
+  }
+
+  for (const [field, fieldRules] of Object.entries(messageRules.fields || {})) {
+    details.push(...validateField(message[field] ?? messageRules.zeroValues?.[field], fieldRules, joinPath(path, field)));
+  }
+
+  for (const [field, fieldType] of Object.entries(messageRules.messages || {})) {
+    const fieldValue = message[field];
+    if (Array.isArray(fieldValue)) {
+      fieldValue.forEach((item, index) => {
+        details.push(...validateMessage(item, fieldType, rules, `${joinPath(path, field)}[${index}]`));
+      });
+    } else {
+      details.push(...validateMessage(fieldValue, fieldType, rules, joinPath(path, field)));
+    }
+  }
+
+  for (const [field, valueType] of Object.entries(messageRules.mapMessages || {})) {
+    for (const [key, item] of Object.entries(message[field] || {})) {
+      details.push(...validateMessage(item, valueType, rules, `${joinPath(path, field)}[${key}]`));
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Throw a VALIDATION_ERROR, without sending anything, if a request violates the
+ * constraints of its message
+ */
+export function assertValid(value: any, typeName: string, rules: ValidationRules): void {
+  const details = validateMessage(value, typeName, rules);
+  if (details.length > 0) {
+    const summary = details.map(detail => `${detail.field} ${detail.message}`).join('; ');
+    throw ErrorUtils.validationError(`Invalid ${typeName}: ${summary}`, details);
+  }
+}
+
+function validateField(value: any, rules: FieldRules, path: string): ErrorDetail[] {
+  const empty = value === undefined || value === null || value === '' || value === 0 || value === false
+    || (Array.isArray(value) && value.length === 0);
+
+  if (value === undefined || value === null || (empty && (rules.required || rules.ignoreEmpty))) {
+    return rules.required ? [{ field: path, message: 'is required' }] : [];
+  }
+
+  const details = violations(value, rules).map(message => ({ field: path, message }));
+
+  if (Array.isArray(value) && rules.items) {
+    value.forEach((item, index) => details.push(...validateField(item, rules.items!, `${path}[${index}]`)));
+  } else if (typeof value === 'object' && (rules.keys || rules.values)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (rules.keys) {
+        details.push(...validateField(key, rules.keys, `${path}[${key}]`));
+      }
+      if (rules.values) {
+        details.push(...validateField(item, rules.values, `${path}[${key}]`));
+      }
+    }
+  }
+
+  return details;
+}
+
+function violations(value: any, rules: FieldRules): string[] {
+  const messages: string[] = [];
+  const check = (violated: boolean, message: string): void => {
+    if (violated) {
+      messages.push(message);
+    }
+  };
+
+  if (typeof value === 'object') {
+    // Repeated fields and maps; other objects are messages, checked by validateMessage
+    const size = Array.isArray(value) ? value.length : Object.keys(value).length;
+    check(rules.minItems !== undefined && size < rules.minItems, `must contain at least ${count(rules.minItems, 'item')}`);
+    check(rules.maxItems !== undefined && size > rules.maxItems, `must contain at most ${count(rules.maxItems, 'item')}`);
+    check(!!rules.unique && Array.isArray(value) && new Set(value).size !== value.length, 'must not contain duplicate items');
+    return messages;
+  }
+
+  // 64-bit integers may be strings or bigints, so compare values by their text
+  const text = String(value);
+  check(rules.const !== undefined && text !== String(rules.const), `must equal ${rules.const}`);
+  check(!!rules.in && !rules.in.some(item => String(item) === text), `must be one of ${rules.in?.join(', ')}`);
+  check(!!rules.notIn && rules.notIn.some(item => String(item) === text), `must not be one of ${rules.notIn?.join(', ')}`);
+
+  const number = Number(value);
+  check(rules.gt !== undefined && !(number > rules.gt), `must be greater than ${rules.gt}`);
+  check(rules.gte !== undefined && !(number >= rules.gte), `must be greater than or equal to ${rules.gte}`);
+  check(rules.lt !== undefined && !(number < rules.lt), `must be less than ${rules.lt}`);
+  check(rules.lte !== undefined && !(number <= rules.lte), `must be less than or equal to ${rules.lte}`);
+
+  const length = Array.from(text).length;
+  check(rules.len !== undefined && length !== rules.len, `must be exactly ${count(rules.len, 'character')}`);
+  check(rules.minLen !== undefined && length < rules.minLen, `must be at least ${count(rules.minLen, 'character')}`);
+  check(rules.maxLen !== undefined && length > rules.maxLen, `must be at most ${count(rules.maxLen, 'character')}`);
+  check(rules.prefix !== undefined && !text.startsWith(rules.prefix), `must start with "${rules.prefix}"`);
+  check(rules.suffix !== undefined && !text.endsWith(rules.suffix), `must end with "${rules.suffix}"`);
+  check(rules.contains !== undefined && !text.includes(rules.contains), `must contain "${rules.contains}"`);
+  check(rules.notContains !== undefined && text.includes(rules.notContains), `must not contain "${rules.notContains}"`);
+
+  const pattern = rules.pattern !== undefined ? toRegExp(rules.pattern) : undefined;
+  check(!!pattern && !pattern.test(text), `must match ${rules.pattern}`);
+
+  if (rules.format) {
+    const [isValid, message] = FORMATS[rules.format];
+    check(!isValid(text), message);
+  }
+
+  return messages;
+}
+
+function count(value: number | undefined, noun: string): string {
+  return `${value} ${noun}${value === 1 ? '' : 's'}`;
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+function isURL(value: string, base?: string): boolean {
+  try {
+    new URL(value, base);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Patterns are RE2 expressions; the few that JavaScript cannot compile are not checked
+ */
+function toRegExp(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+}
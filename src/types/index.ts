@@ -1,52 +1,247 @@
 import type { Options as KyOptions } from 'ky';
 
+/** Standard HTTP verbs, or the `kind` of a custom google.api.http pattern */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | (string & {});
+
+export interface ProtoHttpBinding {
+  httpMethod: HttpMethod;
+  httpPath: string;
+  /**
+   * Request field sent as the HTTP body: `*` for the whole request, a field
+   * name, or an empty string to send every non-path field as query parameters.
+   * Undefined when the method has no google.api.http rule.
+   */
+  body?: string;
+  /** Response field returned as the HTTP body instead of the whole response */
+  responseBody?: string;
+}
+
+/**
+ * Where a declaration was made; `file` is relative to the include path (the import path)
+ */
+export interface ProtoSourceLocation {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Comments attached to a declaration, as protoc reports them in SourceCodeInfo
+ */
+export interface ProtoComments {
+  /** Comment directly above the declaration */
+  leading?: string;
+  /** Comment after the declaration, on the same line or the next one */
+  trailing?: string;
+  /** Comment blocks above the leading comment, separated from it by blank lines */
+  detached?: string[];
+}
+
 export interface ProtoMethod {
   name: string;
+  /** Fully-qualified proto name, e.g. `billing.v1.InvoiceService.GetInvoice` */
+  fullName?: string;
+  /** Fully-qualified request message name when it could be resolved */
   inputType: string;
+  /** Fully-qualified response message name when it could be resolved */
   outputType: string;
-  httpMethod: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  httpMethod: HttpMethod;
   httpPath: string;
+  body?: ProtoHttpBinding['body'];
+  responseBody?: ProtoHttpBinding['responseBody'];
+  /** Further HTTP bindings declared through `additional_bindings` */
+  additionalBindings?: ProtoHttpBinding[];
   description?: string;
+  comments?: ProtoComments;
+  /** Example of the JSON response, from the `openapiv2_operation` 200 response */
+  example?: string;
   summary?: string;
   tags?: string[];
+  deprecated?: boolean;
+  /** Values of the registered custom options the method sets, keyed by option name */
+  options?: Record<string, unknown>;
+  location?: ProtoSourceLocation;
 }
 
 export interface ProtoMessage {
   name: string;
+  /** Fully-qualified proto name, e.g. `billing.v1.Invoice` */
+  fullName?: string;
+  package?: string;
   fields: ProtoField[];
+  oneofs?: ProtoOneof[];
   description?: string;
+  comments?: ProtoComments;
+  /** Example JSON value, from the `openapiv2_schema` option */
+  example?: string;
   isRequest?: boolean;
   isResponse?: boolean;
+  deprecated?: boolean;
+  location?: ProtoSourceLocation;
 }
 
+/**
+ * A `google.api.field_behavior` annotation
+ */
+export type FieldBehavior =
+  | 'OPTIONAL'
+  | 'REQUIRED'
+  | 'OUTPUT_ONLY'
+  | 'INPUT_ONLY'
+  | 'IMMUTABLE'
+  | 'UNORDERED_LIST'
+  | 'NON_EMPTY_DEFAULT'
+  | 'IDENTIFIER'
+  | (string & {});
+
 export interface ProtoField {
   name: string;
+  /** Fully-qualified proto name, e.g. `billing.v1.Invoice.amount` */
+  fullName?: string;
+  /** proto3 JSON name: the `json_name` option, or the lowerCamelCase name protoc derives */
+  jsonName?: string;
+  /** Scalar type or fully-qualified message/enum name; for map fields this is the value type */
   type: string;
+  /** Key type of a `map<K, V>` field, undefined for regular fields */
+  keyType?: string;
   repeated: boolean;
   optional: boolean;
   number: number;
+  /** Name of the oneof group this field belongs to */
+  oneof?: string;
+  /** `google.api.field_behavior` annotations, e.g. `REQUIRED` or `OUTPUT_ONLY` */
+  behaviors?: FieldBehavior[];
+  description?: string;
+  comments?: ProtoComments;
+  /** Example JSON value, from the `openapiv2_field` option */
+  example?: string;
+  deprecated?: boolean;
+  /** Values of the registered custom options the field sets, keyed by option name */
+  options?: Record<string, unknown>;
+  /** `buf.validate.field` or legacy `validate.rules` constraints */
+  rules?: FieldRules;
+  location?: ProtoSourceLocation;
+}
+
+/**
+ * String formats of protovalidate and protoc-gen-validate, e.g. `string.email`
+ */
+export type StringFormat = 'email' | 'hostname' | 'ip' | 'ipv4' | 'ipv6' | 'uri' | 'uri_ref' | 'address' | 'uuid';
+
+/**
+ * Validation constraints of a field, normalized from its protovalidate or protoc-gen-validate
+ * option. Bounds apply to numbers, lengths to strings (in characters) and item counts to
+ * repeated fields and the entries of maps. Enum constraints hold value names.
+ */
+export interface FieldRules {
+  required?: boolean;
+  /** Skip the other constraints when the value is empty, zero or false */
+  ignoreEmpty?: boolean;
+  const?: string | number | boolean;
+  in?: Array<string | number>;
+  notIn?: Array<string | number>;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  len?: number;
+  minLen?: number;
+  maxLen?: number;
+  pattern?: string;
+  prefix?: string;
+  suffix?: string;
+  contains?: string;
+  notContains?: string;
+  format?: StringFormat;
+  minItems?: number;
+  maxItems?: number;
+  unique?: boolean;
+  /** Constraints of every item of a repeated field */
+  items?: FieldRules;
+  /** Constraints of the keys and values of a map field */
+  keys?: FieldRules;
+  values?: FieldRules;
+}
+
+export interface ProtoOneof {
+  name: string;
+  /** Names of the member fields, in declaration order */
+  fields: string[];
+  /** One member has to be set, from `(buf.validate.oneof).required` or `(validate.required)` */
+  required?: boolean;
+  description?: string;
+  comments?: ProtoComments;
+}
+
+export interface ProtoEnumValue {
+  name: string;
+  number: number;
+  description?: string;
+  comments?: ProtoComments;
+  deprecated?: boolean;
+}
+
+export interface ProtoEnum {
+  name: string;
+  /** Fully-qualified proto name, e.g. `billing.v1.InvoiceState` */
+  fullName?: string;
+  package?: string;
+  values: ProtoEnumValue[];
   description?: string;
+  comments?: ProtoComments;
+  deprecated?: boolean;
+  location?: ProtoSourceLocation;
 }
 
 export interface ProtoService {
   name: string;
+  /** Fully-qualified proto name, e.g. `billing.v1.InvoiceService` */
+  fullName?: string;
+  package?: string;
   methods: ProtoMethod[];
   description?: string;
+  comments?: ProtoComments;
+  deprecated?: boolean;
+  location?: ProtoSourceLocation;
 }
 
 export interface ProtoFile {
   package: string;
   services: ProtoService[];
   messages: ProtoMessage[];
+  enums?: ProtoEnum[];
   imports: string[];
+  /** API metadata from the file's openapiv2_swagger option */
+  metadata?: ProtoApiMetadata;
 }
 
-export interface ParsedSchema {
-  files: ProtoFile[];
-  baseUrl?: string;
+export interface ProtoSecurityScheme {
+  type: 'basic' | 'apiKey' | 'oauth2';
+  description?: string;
+  /** Header or query parameter carrying an API key */
+  name?: string;
+  in?: 'query' | 'header';
+  flow?: 'implicit' | 'password' | 'application' | 'accessCode';
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+export interface ProtoApiMetadata {
   title?: string;
   version?: string;
   description?: string;
+  host?: string;
+  basePath?: string;
+  /** Lower-cased URL schemes, e.g. `https` */
+  schemes?: string[];
+  securityDefinitions?: Record<string, ProtoSecurityScheme>;
+}
+
+export interface ParsedSchema extends ProtoApiMetadata {
+  files: ProtoFile[];
+  /** Base URL derived from the declared host, base path and schemes */
+  baseUrl?: string;
 }
 
 export interface APIClientConfig {
@@ -72,6 +267,11 @@ export interface APIClientConfig {
       };
   cache?: CacheConfig;
   debug?: boolean;
+  /**
+   * Check requests against their protovalidate constraints and throw a VALIDATION_ERROR
+   * instead of sending invalid ones; needs a client generated with `generateValidators`
+   */
+  validateRequests?: boolean;
 }
 
 export interface CacheConfig {
@@ -92,6 +292,11 @@ export interface RequestOptions extends Omit<KyOptions, 'prefixUrl'> {
 }
 
 
+export interface SearchParamsOptions {
+  /** Dotted paths of map fields, serialized as `field[key]=value` */
+  mapFields?: string[];
+}
+
 export interface PaginatedResponse<T = any> {
   data: T;
   total: number;
@@ -115,7 +320,21 @@ export interface APIErrorResponse {
 }
 
 export interface GeneratorOptions {
-  protoPath: string;
+  /** One or more directories whose .proto files are generated */
+  protoPath: string | string[];
+  /** Further directories searched for imports only, like protoc's `-I` */
+  includePaths?: string[];
+  /** Globs selecting the files under `protoPath` to generate, e.g. `api/**\/*.proto` */
+  include?: string[];
+  /** Globs leaving files out, e.g. `third_party/**`; their messages can still be imported */
+  exclude?: string[];
+  /** Binary FileDescriptorSet or buf image (path or bytes) to generate from instead of the .proto files in `protoPath` */
+  descriptorSet?: string | Uint8Array;
+  /**
+   * In-memory .proto files, or protobufjs JSON descriptors ending in `.json`, keyed by import
+   * path (`api/user.proto`), to generate from instead of the files in `protoPath`
+   */
+  sources?: Record<string, string>;
   outputDir: string;
   baseUrl?: string;
   packageName?: string;
@@ -123,16 +342,93 @@ export interface GeneratorOptions {
   includeComments?: boolean;
   generateFilterBuilders?: boolean;
   generateSortBuilders?: boolean;
+  /** Also generate `schemas.ts` with a Zod schema per message and enum; the package then depends on `zod` */
+  generateZodSchemas?: boolean;
+  /**
+   * Also generate `validators.ts` with a validate function per message that has protovalidate
+   * (`buf.validate`) or protoc-gen-validate (`validate.rules`) constraints
+   */
+  generateValidators?: boolean;
+  /**
+   * Also generate JSON Schema (draft 2020-12) of the messages: `bundle` writes `schema.json`
+   * with every message and enum under `$defs`, `perMessage` writes `json-schema/${Name}.json`
+   * per enum and message
+   */
+  jsonSchema?: 'bundle' | 'perMessage';
   dateType?: 'Date' | 'string';
   bigintType?: 'number' | 'bigint' | 'string';
+  enumStyle?: 'union' | 'enum' | 'const';
+  omitEnumUnspecified?: boolean;
+  oneofStyle?: 'union' | 'tagged';
+  typeNaming?: 'auto' | 'qualified';
+  /** Property names of fields: as declared, their proto3 JSON name, or camelCase (default) */
+  fieldNaming?: 'original' | 'jsonName' | 'camelCase';
+  /** Overrides for well-known type mappings, keyed by short or full name (e.g. `Duration`) */
+  wellKnownTypes?: Record<string, string>;
+  /** Fail generation on any parse, resolution or generation error; warnings are only printed */
+  strict?: boolean;
+  /** Add `@see file.proto:line` to the JSDoc of generated methods, interfaces and enums */
+  includeSourceLocations?: boolean;
+  /** Leave deprecated services, methods, fields and enum values out of the generated code */
+  excludeDeprecated?: boolean;
+  /**
+   * Selectors of the methods to generate: a glob over service or method names
+   * (`UserService`, `users.v1.*`, `UserService.Get*`), `package:<glob>` or `tag:<glob>`.
+   * Messages and enums no selected method uses are left out.
+   */
+  includeMethods?: string[];
+  /** Selectors of methods to leave out, in the same form as `includeMethods` */
+  excludeMethods?: string[];
+  /**
+   * Custom method and field options, e.g. `acme.api.rate_limit`, whose values are kept in
+   * `ProtoMethod.options` and `ProtoField.options` of the parsed schema
+   */
+  customOptions?: Array<string | CustomOptionExtractor>;
 }
 
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A parse, resolution or generation problem, located in a proto file where possible
+ */
+export interface ProtoDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export type DiagnosticHandler = (_diagnostic: ProtoDiagnostic) => void;
+
 export interface ProtoParseOptions {
   includePath?: string[];
+  /** Globs selecting the files whose services are generated, relative to their root or include path */
+  include?: string[];
+  /** Globs leaving files out; their messages are still available to the files that import them */
+  exclude?: string[];
   keepCase?: boolean;
   alternateCommentMode?: boolean;
   preferTrailingComment?: boolean;
   debug?: boolean;
+  /** Receives parse and resolution problems; defaults to printing them as warnings */
+  onDiagnostic?: DiagnosticHandler;
+  /** Custom options to attach to methods and fields, see `CustomOptionExtractor` */
+  customOptions?: Array<string | CustomOptionExtractor>;
+}
+
+/**
+ * A custom method or field option, e.g. `(acme.api.rate_limit)`, whose value is kept in
+ * `ProtoMethod.options` / `ProtoField.options` under its name
+ */
+export interface CustomOptionExtractor {
+  /** Fully-qualified option name, with or without parentheses: `acme.api.rate_limit` */
+  name: string;
+  /**
+   * Turns the parsed value (a scalar, enum value name or object for message options) into
+   * what is stored; returning undefined leaves the option out. Defaults to the value itself.
+   */
+  extract?: (_value: any, _declaration: { kind: 'method' | 'field'; fullName: string }) => unknown;
 }
 
 export interface TypeMappingOptions {
@@ -140,6 +436,15 @@ export interface TypeMappingOptions {
   bigintAsString?: boolean;
   bigintAsNumber?: boolean;
   useOptionalForOptionalFields?: boolean;
+  enumStyle?: 'union' | 'enum' | 'const';
+  omitEnumUnspecified?: boolean;
+  oneofStyle?: 'union' | 'tagged';
+  typeNaming?: 'auto' | 'qualified';
+  fieldNaming?: 'original' | 'jsonName' | 'camelCase';
+  wellKnownTypes?: Record<string, string>;
+  includeSourceLocations?: boolean;
+  /** Receives generation problems; defaults to printing them as warnings */
+  onDiagnostic?: DiagnosticHandler;
 }
 
 export interface ClientGeneratorOptions {
@@ -148,4 +453,13 @@ export interface ClientGeneratorOptions {
   generateComments: boolean;
   generateFilterBuilders: boolean;
   generateSortBuilders: boolean;
+  /** Check requests against `validators.ts` when the client is created with `validateRequests` */
+  generateValidators?: boolean;
+  oneofStyle?: 'union' | 'tagged';
+  typeNaming?: 'auto' | 'qualified';
+  fieldNaming?: 'original' | 'jsonName' | 'camelCase';
+  wellKnownTypes?: Record<string, string>;
+  includeSourceLocations?: boolean;
+  /** Receives generation problems; defaults to printing them as warnings */
+  onDiagnostic?: DiagnosticHandler;
 }
\ No newline at end of file
@@ -144,6 +144,121 @@ describe('APIClientGenerator', () => {
       expect(result).toContain('searchParams,');
     });
 
+    it('should pass map field paths when serializing GET requests', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [{
+            name: 'ResourceService',
+            methods: [{
+              name: 'ListResources',
+              inputType: 'ListResourcesRequest',
+              outputType: 'ListResourcesResponse',
+              httpMethod: 'GET',
+              httpPath: '/api/v1/resources'
+            }]
+          }],
+          messages: [
+            {
+              name: 'ListResourcesRequest',
+              fields: [
+                { name: 'labels', type: 'string', keyType: 'string', repeated: false, optional: false, number: 1 },
+                { name: 'filter', type: 'ResourceFilter', repeated: false, optional: true, number: 2 }
+              ]
+            },
+            {
+              name: 'ResourceFilter',
+              fields: [
+                { name: 'owner_tags', type: 'string', keyType: 'string', repeated: false, optional: false, number: 1 }
+              ]
+            }
+          ],
+          imports: []
+        }]
+      };
+
+      const result = generator.generateClient(schema);
+
+      expect(result).toContain('const searchParams = this.client.objectToSearchParams(request, { mapFields: [\'labels\', \'filter.ownerTags\'] });');
+    });
+
+    it('should convert tagged oneofs when sending requests and reading responses', () => {
+      const taggedGenerator = new APIClientGenerator({ ...options, oneofStyle: 'tagged' });
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [{
+            name: 'PaymentService',
+            methods: [{
+              name: 'CreatePayment',
+              inputType: 'CreatePaymentRequest',
+              outputType: 'Payment',
+              httpMethod: 'POST',
+              httpPath: '/api/v1/payments'
+            }]
+          }],
+          messages: [
+            {
+              name: 'CreatePaymentRequest',
+              fields: [
+                { name: 'payment', type: 'Payment', repeated: false, optional: false, number: 1 }
+              ]
+            },
+            {
+              name: 'Payment',
+              fields: [
+                { name: 'card', type: 'string', repeated: false, optional: true, number: 1, oneof: 'method' },
+                { name: 'bank_account', type: 'string', repeated: false, optional: true, number: 2, oneof: 'method' }
+              ],
+              oneofs: [{ name: 'method', fields: ['card', 'bank_account'] }]
+            }
+          ],
+          imports: []
+        }]
+      };
+
+      const result = taggedGenerator.generateClient(schema);
+
+      expect(result).toContain('import type { APIClient, RequestOptions, AuthProvider, OneofDescriptors } from \'proto2fetch/runtime\';');
+      expect(result).toContain('import { createAPIClient, packOneofs, unpackOneofs } from \'proto2fetch/runtime\';');
+      expect(result).toContain(`const oneofDescriptors: OneofDescriptors = {
+  Payment: { oneofs: { method: ['card', 'bankAccount'] } },
+  CreatePaymentRequest: { fields: { payment: 'Payment' } }
+};`);
+      expect(result).toContain('const wireRequest = packOneofs(request, \'CreatePaymentRequest\', oneofDescriptors);');
+      expect(result).toContain('const response = await this.client.request(\'POST\', path, wireRequest, options);');
+      expect(result).toContain('return unpackOneofs<Types.Payment>(response, \'Payment\', oneofDescriptors);');
+    });
+
+    it('should not emit oneof conversion for the default union style', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [{
+            name: 'PaymentService',
+            methods: [{
+              name: 'GetPayment',
+              inputType: 'GetPaymentRequest',
+              outputType: 'Payment',
+              httpMethod: 'GET',
+              httpPath: '/api/v1/payment'
+            }]
+          }],
+          messages: [{
+            name: 'Payment',
+            fields: [{ name: 'card', type: 'string', repeated: false, optional: true, number: 1, oneof: 'method' }],
+            oneofs: [{ name: 'method', fields: ['card'] }]
+          }],
+          imports: []
+        }]
+      };
+
+      const result = generator.generateClient(schema);
+
+      expect(result).not.toContain('oneofDescriptors');
+      expect(result).toContain('import { createAPIClient } from \'proto2fetch/runtime\';');
+    });
+
     it('should handle path parameters correctly', () => {
       const schema: ParsedSchema = {
         files: [{
@@ -165,7 +280,7 @@ describe('APIClientGenerator', () => {
 
       const result = generator.generateClient(schema);
 
-      expect(result).toContain('const path = `api/v1/users/${request.id}`;');
+      expect(result).toContain("const path = `api/v1/users/${encodePathVariable(request.id, 'id')}`;");
       expect(result).toContain('const { id, ...body } = request;');
       expect(result).toContain('return this.client.request<Types.UpdateUserResponse>(\'PUT\', path, body, options);');
     });
@@ -193,6 +308,323 @@ describe('APIClientGenerator', () => {
 
       expect(result).toContain('async createUserAccount(');
     });
+
+    it('should inline well-known request and response types', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [{
+            name: 'HealthService',
+            methods: [
+              {
+                name: 'Ping',
+                inputType: 'google.protobuf.Empty',
+                outputType: 'google.protobuf.Empty',
+                httpMethod: 'GET',
+                httpPath: '/api/v1/ping'
+              },
+              {
+                name: 'Status',
+                inputType: 'google.protobuf.Empty',
+                outputType: 'google.protobuf.Struct',
+                httpMethod: 'POST',
+                httpPath: '/api/v1/status'
+              }
+            ]
+          }],
+          messages: [],
+          imports: []
+        }]
+      };
+
+      const result = generator.generateClient(schema);
+
+      expect(result).toContain('async ping(options?: RequestOptions): Promise<Record<string, never>> {');
+      expect(result).toContain('async status(request: Record<string, never>, options?: RequestOptions): Promise<Record<string, unknown>> {');
+      expect(result).not.toContain('Types.google');
+    });
+
+    it('should keep same-named services from different packages apart', () => {
+      const service = (pkg: string): ProtoService => ({
+        name: 'InvoiceService',
+        fullName: `${pkg}.InvoiceService`,
+        package: pkg,
+        methods: [{
+          name: 'GetInvoice',
+          inputType: `${pkg}.GetInvoiceRequest`,
+          outputType: `${pkg}.Invoice`,
+          httpMethod: 'GET',
+          httpPath: `/${pkg}/invoices/{id}`
+        }]
+      });
+      const messages = (pkg: string): ProtoMessage[] => [
+        { name: 'GetInvoiceRequest', fullName: `${pkg}.GetInvoiceRequest`, package: pkg, fields: [] },
+        { name: 'Invoice', fullName: `${pkg}.Invoice`, package: pkg, fields: [] }
+      ];
+      const schema: ParsedSchema = {
+        files: ['v1', 'v2'].map(pkg => ({
+          package: pkg,
+          services: [service(pkg)],
+          messages: messages(pkg),
+          imports: []
+        }))
+      };
+
+      const result = generator.generateClient(schema);
+
+      expect(result).toContain('Promise<Types.V1_Invoice>');
+      expect(result).toContain('Promise<Types.V2_Invoice>');
+      expect(result.match(/async \w*getInvoice\(/gi)?.length).toBe(2);
+    });
+  });
+
+  describe('http rules', () => {
+    const schemaWith = (method: ProtoMethod, messages: ProtoMessage[] = []): ParsedSchema => ({
+      files: [{
+        package: 'test',
+        services: [{ name: 'UserService', methods: [method] }],
+        messages,
+        imports: []
+      }]
+    });
+
+    it('should send only the body field and put remaining fields in the query', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'UpdateUser',
+        inputType: 'UpdateUserRequest',
+        outputType: 'User',
+        httpMethod: 'PATCH',
+        httpPath: '/v1/users/{id}',
+        body: 'user'
+      }));
+
+      expect(result).toContain('const { id, user, ...query } = request;');
+      expect(result).toContain('const searchParams = this.client.objectToSearchParams(query);');
+      expect(result).toContain("return this.client.request<Types.User>('PATCH', path, request.user, {");
+    });
+
+    it('should send every non-path field as query parameters without a body', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'ArchiveUser',
+        inputType: 'ArchiveUserRequest',
+        outputType: 'User',
+        httpMethod: 'POST',
+        httpPath: '/v1/users/{id}:archive',
+        body: ''
+      }));
+
+      expect(result).toContain('const { id, ...query } = request;');
+      expect(result).toContain("return this.client.request<Types.User>('POST', path, undefined, {");
+    });
+
+    it('should type resource requests by their input variant', () => {
+      const user: ProtoMessage = {
+        name: 'User',
+        fields: [
+          { name: 'id', type: 'string', repeated: false, optional: false, number: 1, behaviors: ['OUTPUT_ONLY'] },
+          { name: 'name', type: 'string', repeated: false, optional: false, number: 2 }
+        ]
+      };
+
+      const result = generator.generateClient(schemaWith({
+        name: 'UpdateUser',
+        inputType: 'User',
+        outputType: 'User',
+        httpMethod: 'PUT',
+        httpPath: '/v1/users',
+        body: '*'
+      }, [user]));
+
+      expect(result).toContain('async updateUser(request: Types.UserInput, options?: RequestOptions): Promise<Types.User> {');
+    });
+
+    it('should tag deprecated methods and every method of a deprecated service', () => {
+      const method: ProtoMethod = {
+        name: 'GetUser',
+        inputType: 'GetUserRequest',
+        outputType: 'User',
+        httpMethod: 'GET',
+        httpPath: '/v1/users/{id}',
+        description: 'Deprecated: use LookupUser',
+        deprecated: true
+      };
+
+      expect(generator.generateClient(schemaWith(method))).toContain('   * @deprecated use LookupUser\n   */\n  async getUser(');
+
+      const service: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [{ name: 'UserService', deprecated: true, methods: [{ ...method, description: undefined, deprecated: undefined }] }],
+          messages: [],
+          imports: []
+        }]
+      };
+      expect(generator.generateClient(service)).toContain('   * @deprecated\n   */\n  async getUser(');
+    });
+
+    it('should link methods to their RPC definition when source locations are enabled', () => {
+      const method: ProtoMethod = {
+        name: 'GetUser',
+        inputType: 'GetUserRequest',
+        outputType: 'User',
+        httpMethod: 'GET',
+        httpPath: '/v1/users/{id}',
+        description: 'Get a user',
+        location: { file: 'api/users.proto', line: 42, column: 3 }
+      };
+
+      const withLocations = new APIClientGenerator({ ...options, includeSourceLocations: true });
+      expect(withLocations.generateClient(schemaWith(method))).toContain('   * Get a user\n   * @see api/users.proto:42\n   */');
+      expect(generator.generateClient(schemaWith(method))).not.toContain('@see');
+    });
+
+    it('should unwrap the response_body field', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'GetUser',
+        inputType: 'GetUserRequest',
+        outputType: 'GetUserResponse',
+        httpMethod: 'GET',
+        httpPath: '/v1/users/{id}',
+        body: '',
+        responseBody: 'user'
+      }));
+
+      expect(result).toContain("Promise<Types.GetUserResponse['user']>");
+      expect(result).toContain("return this.client.request<Types.GetUserResponse['user']>('GET', path, undefined, {");
+    });
+
+    it('should generate a method per additional binding', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'GetUser',
+        inputType: 'GetUserRequest',
+        outputType: 'User',
+        httpMethod: 'GET',
+        httpPath: '/v1/users/{id}',
+        body: '',
+        additionalBindings: [
+          { httpMethod: 'GET', httpPath: '/v1/me', body: '' },
+          { httpMethod: 'HEAD', httpPath: '/v1/users/{id}', body: '' }
+        ]
+      }));
+
+      expect(result).toContain('async getUser(request: Types.GetUserRequest');
+      expect(result).toContain('async getUserBinding1(request: Types.GetUserRequest');
+      expect(result).toContain("const path = 'v1/me';");
+      expect(result).toContain('async getUserBinding2(request: Types.GetUserRequest');
+      expect(result).toContain("return this.client.request<Types.User>('HEAD', path, undefined, {");
+    });
+  });
+
+  describe('path templates', () => {
+    const schemaWith = (method: ProtoMethod): ParsedSchema => ({
+      files: [{
+        package: 'test',
+        services: [{ name: 'LibraryService', methods: [method] }],
+        messages: [],
+        imports: []
+      }]
+    });
+
+    it('should validate and encode pattern-constrained variables', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'ListBooks',
+        inputType: 'ListBooksRequest',
+        outputType: 'ListBooksResponse',
+        httpMethod: 'GET',
+        httpPath: '/v1/{parent=projects/*/shelves/*}/books:search',
+        body: ''
+      }));
+
+      expect(result).toContain("const path = `v1/${encodePathVariable(request.parent, 'parent', 'projects/*/shelves/*')}/books:search`;");
+      expect(result).toContain('const { parent, ...query } = request;');
+      expect(result).toContain("import { createAPIClient, encodePathVariable } from 'proto2fetch/runtime';");
+    });
+
+    it('should read nested fields and remove them from the body', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'UpdateBook',
+        inputType: 'UpdateBookRequest',
+        outputType: 'Book',
+        httpMethod: 'PATCH',
+        httpPath: '/v1/{book.name=shelves/*/books/*}',
+        body: 'book'
+      }));
+
+      expect(result).toContain("const path = `v1/${encodePathVariable(request.book?.name, 'book.name', 'shelves/*/books/*')}`;");
+      expect(result).toContain("const body = omitFields(request.book, ['name']);");
+      expect(result).toContain('const { book, ...query } = request;');
+      expect(result).toContain("return this.client.request<Types.Book>('PATCH', path, body, {");
+    });
+
+    it('should remove nested path fields from a whole-request body', () => {
+      const result = generator.generateClient(schemaWith({
+        name: 'UpdateUser',
+        inputType: 'UpdateUserRequest',
+        outputType: 'User',
+        httpMethod: 'PUT',
+        httpPath: '/v1/users/{user.id}',
+        body: '*'
+      }));
+
+      expect(result).toContain("const body = omitFields(request, ['user.id']);");
+      expect(result).toContain('omitFields } from \'proto2fetch/runtime\';');
+    });
+  });
+
+  describe('field naming', () => {
+    const schema: ParsedSchema = {
+      files: [{
+        package: 'test',
+        services: [{
+          name: 'ShelfService',
+          methods: [{
+            name: 'UpdateShelfItem',
+            inputType: 'UpdateShelfItemRequest',
+            outputType: 'ShelfItem',
+            httpMethod: 'PATCH',
+            httpPath: '/v1/items/{shelf_item.item_id}',
+            body: 'shelf_item'
+          }]
+        }],
+        messages: [
+          {
+            name: 'UpdateShelfItemRequest',
+            fields: [
+              { name: 'shelf_item', jsonName: 'item', type: 'ShelfItem', repeated: false, optional: false, number: 1 },
+              { name: 'update_mask', jsonName: 'updateMask', type: 'string', repeated: false, optional: false, number: 2 }
+            ]
+          },
+          {
+            name: 'ShelfItem',
+            fields: [{ name: 'item_id', jsonName: 'sku', type: 'string', repeated: false, optional: false, number: 1 }]
+          }
+        ],
+        imports: []
+      }]
+    };
+
+    it('should use json names for path parameters, body and query fields', () => {
+      const result = new APIClientGenerator({ ...options, fieldNaming: 'jsonName' }).generateClient(schema);
+
+      expect(result).toContain("const path = `v1/items/${encodePathVariable(request.item?.sku, 'shelf_item.item_id')}`;");
+      expect(result).toContain("const body = omitFields(request.item, ['sku']);");
+      expect(result).toContain('const { item, ...query } = request;');
+    });
+
+    it('should keep declared names with the original strategy', () => {
+      const result = new APIClientGenerator({ ...options, fieldNaming: 'original' }).generateClient(schema);
+
+      expect(result).toContain("encodePathVariable(request.shelf_item?.item_id, 'shelf_item.item_id')");
+      expect(result).toContain("const body = omitFields(request.shelf_item, ['item_id']);");
+      expect(result).toContain('const { shelf_item, ...query } = request;');
+    });
+
+    it('should camelCase names by default', () => {
+      const result = generator.generateClient(schema);
+
+      expect(result).toContain("encodePathVariable(request.shelfItem?.itemId, 'shelf_item.item_id')");
+      expect(result).toContain('const { shelfItem, ...query } = request;');
+    });
   });
 
   describe('generateHelperMethods', () => {
@@ -462,10 +894,27 @@ describe('APIClientGenerator', () => {
 
       const result = generator.generateClient(schema);
 
-      expect(result).toContain('const path = `api/v1/users/${request.userId}/resources/${request.resourceId}`;');
+      expect(result).toContain("const path = `api/v1/users/${encodePathVariable(request.userId, 'user_id')}/resources/${encodePathVariable(request.resourceId, 'resource_id')}`;");
       expect(result).toContain('const { userId, resourceId, ...body } = request;');
     });
 
+    it('should use API metadata for the default base URL and JSDoc', () => {
+      const schema: ParsedSchema = {
+        files: [],
+        title: 'Annotated API',
+        version: '1.2',
+        description: 'Tasks and pings',
+        baseUrl: 'https://api.example.com/annotated'
+      };
+
+      const withMetadata = new APIClientGenerator({ ...options, baseUrl: '' }).generateClient(schema);
+      expect(withMetadata).toContain("const defaultBaseUrl = 'https://api.example.com/annotated';");
+      expect(withMetadata).toContain(' * Annotated API (version 1.2)\n *\n * Tasks and pings\n */');
+
+      const explicit = generator.generateClient(schema);
+      expect(explicit).toContain("const defaultBaseUrl = 'https://api.test.com';");
+    });
+
     it('should respect base URL configuration', () => {
       const optionsWithoutBaseUrl = { ...options, baseUrl: '' };
       const generatorWithoutBaseUrl = new APIClientGenerator(optionsWithoutBaseUrl);
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { deprecatedTag, withoutDeprecated } from '../src/generator/deprecation.js';
+import type { ParsedSchema, ProtoField } from '../src/types/index.js';
+
+const field = (name: string, type: string, deprecated?: boolean): ProtoField =>
+  ({ name, type, repeated: false, optional: false, number: 1, deprecated });
+
+describe('deprecatedTag', () => {
+  it('should use a "Deprecated:" comment line as the reason', () => {
+    expect(deprecatedTag('The nickname.\nDeprecated: use display_name instead')).toBe('@deprecated use display_name instead');
+    expect(deprecatedTag('The nickname.')).toBe('@deprecated');
+    expect(deprecatedTag(undefined)).toBe('@deprecated');
+  });
+});
+
+describe('withoutDeprecated', () => {
+  const schema: ParsedSchema = {
+    files: [{
+      package: 'test',
+      services: [
+        {
+          name: 'UserService',
+          methods: [
+            { name: 'GetUser', inputType: 'GetUserRequest', outputType: 'User', httpMethod: 'GET', httpPath: '/v1/users/{id}' },
+            { name: 'GetLegacyUser', inputType: 'GetUserRequest', outputType: 'LegacyUser', httpMethod: 'GET', httpPath: '/v1/legacy/{id}', deprecated: true }
+          ]
+        },
+        { name: 'OldService', deprecated: true, methods: [] }
+      ],
+      messages: [
+        { name: 'GetUserRequest', fields: [field('id', 'string')] },
+        { name: 'User', fields: [field('id', 'string'), field('nickname', 'string', true), field('address', 'Address')] },
+        { name: 'Address', deprecated: true, fields: [field('city', 'string')] },
+        { name: 'LegacyUser', deprecated: true, fields: [field('id', 'string')] }
+      ],
+      enums: [{ name: 'Tier', values: [{ name: 'TIER_FREE', number: 0 }, { name: 'TIER_GOLD', number: 1, deprecated: true }] }],
+      imports: []
+    }]
+  };
+
+  it('should drop deprecated services, methods, fields and enum values', () => {
+    const [file] = withoutDeprecated(schema).files;
+
+    expect(file!.services.map(service => service.name)).toEqual(['UserService']);
+    expect(file!.services[0]!.methods.map(method => method.name)).toEqual(['GetUser']);
+    expect(file!.messages.find(message => message.name === 'User')!.fields.map(f => f.name)).toEqual(['id', 'address']);
+    expect(file!.enums![0]!.values.map(value => value.name)).toEqual(['TIER_FREE']);
+  });
+
+  it('should keep deprecated messages that are still referenced', () => {
+    const [file] = withoutDeprecated(schema).files;
+
+    expect(file!.messages.map(message => message.name)).toEqual(['GetUserRequest', 'User', 'Address']);
+  });
+});
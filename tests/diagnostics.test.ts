@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProtoParser } from '../src/generator/parser.js';
+import { Proto2FetchGenerator } from '../src/generator/index.js';
+import { DiagnosticsError, formatDiagnostic, formatDiagnostics } from '../src/generator/diagnostics.js';
+import type { ProtoDiagnostic } from '../src/types/index.js';
+
+describe('parser diagnostics', () => {
+  let dir: string;
+  let diagnostics: ProtoDiagnostic[];
+  let parser: ProtoParser;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    diagnostics = [];
+    parser = new ProtoParser({ onDiagnostic: diagnostic => diagnostics.push(diagnostic) });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should locate syntax errors', async () => {
+    const file = path.join(dir, 'broken.proto');
+    fs.writeFileSync(file, 'syntax = "proto3";\n\nmessage User {\n  string id = 1\n  string name = 2;\n}\n');
+
+    const parsed = await parser.parseFile(file);
+
+    expect(parsed.messages).toEqual([]);
+    expect(diagnostics).toEqual([
+      { severity: 'error', message: "illegal token 'string', ';' expected", file, line: 5, column: 3 }
+    ]);
+  });
+
+  it('should locate missing imports and unresolved types', async () => {
+    const file = path.join(dir, 'orders.proto');
+    fs.writeFileSync(file, [
+      'syntax = "proto3";',
+      'package orders;',
+      'import "common/money.proto";',
+      '',
+      'message Order {',
+      '  common.Money total = 1;',
+      '}',
+      '',
+      'service OrderService {',
+      '  rpc GetOrder(GetOrderRequest) returns (Order);',
+      '}',
+      ''
+    ].join('\n'));
+
+    await parser.parseFromDirectory(dir);
+
+    expect(diagnostics).toEqual([
+      { severity: 'error', message: 'Import "common/money.proto" was not found', file, line: 3, column: 1 },
+      { severity: 'error', message: 'Unresolved type "GetOrderRequest" of method "orders.OrderService.GetOrder"', file, line: 10, column: 3 },
+      { severity: 'error', message: 'Unresolved type "common.Money" of field "orders.Order.total"', file, line: 6, column: 3 }
+    ]);
+  });
+});
+
+describe('formatDiagnostics', () => {
+  const diagnostics: ProtoDiagnostic[] = [
+    { severity: 'error', message: "illegal token 'string'", file: 'api/user.proto', line: 5, column: 3 },
+    { severity: 'warning', message: 'Circular dependency detected involving a.Node' },
+    { severity: 'error', message: 'Import "x.proto" was not found', file: 'api/user.proto', line: 2 }
+  ];
+
+  it('should format a single located diagnostic', () => {
+    expect(formatDiagnostic(diagnostics[0]!)).toBe("api/user.proto:5:3 - error: illegal token 'string'");
+    expect(formatDiagnostic(diagnostics[1]!)).toBe('warning: Circular dependency detected involving a.Node');
+  });
+
+  it('should group diagnostics by file and summarize them', () => {
+    expect(formatDiagnostics(diagnostics)).toBe([
+      'api/user.proto',
+      "  5:3     error    illegal token 'string'",
+      '  2:1     error    Import "x.proto" was not found',
+      '',
+      '(no file)',
+      '          warning  Circular dependency detected involving a.Node',
+      '',
+      '2 errors, 1 warning'
+    ].join('\n'));
+  });
+});
+
+describe('strict mode', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    fs.mkdirSync(path.join(dir, 'proto'));
+    fs.writeFileSync(path.join(dir, 'proto/broken.proto'), 'syntax = "proto3";\nmessage {\n');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fail with every collected diagnostic and write nothing', async () => {
+    const generator = new Proto2FetchGenerator({
+      protoPath: path.join(dir, 'proto'),
+      outputDir: path.join(dir, 'generated'),
+      strict: true
+    });
+
+    const error = await generator.generate().catch(error => error);
+
+    expect(error).toBeInstanceOf(DiagnosticsError);
+    expect(error.diagnostics).toHaveLength(1);
+    expect(error.diagnostics[0]).toMatchObject({ severity: 'error', line: 2 });
+    expect(fs.existsSync(path.join(dir, 'generated'))).toBe(false);
+  });
+
+  it('should accept messages that refer to themselves', async () => {
+    fs.writeFileSync(path.join(dir, 'proto/broken.proto'), [
+      'syntax = "proto3";',
+      'message Node {',
+      '  string id = 1;',
+      '  repeated Node children = 2;',
+      '}',
+      ''
+    ].join('\n'));
+    const generator = new Proto2FetchGenerator({
+      protoPath: path.join(dir, 'proto'),
+      outputDir: path.join(dir, 'generated'),
+      strict: true
+    });
+
+    await generator.generate();
+
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(fs.readFileSync(path.join(dir, 'generated/types.ts'), 'utf8')).toContain('children: Node[];');
+  });
+
+  it('should only fail on errors', () => {
+    const generator = new Proto2FetchGenerator({ protoPath: '', outputDir: '', strict: true });
+    generator['addDiagnostic']({ severity: 'warning', message: 'Field "a.B.c" is unused' });
+
+    expect(() => generator.flushDiagnostics()).not.toThrow();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('0 errors, 1 warning'));
+  });
+
+  it('should report diagnostics as warnings outside strict mode', async () => {
+    const generator = new Proto2FetchGenerator({
+      protoPath: path.join(dir, 'proto'),
+      outputDir: path.join(dir, 'generated')
+    });
+
+    await generator.generate();
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('broken.proto'));
+    expect(fs.existsSync(path.join(dir, 'generated/client.ts'))).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlobs } from '../src/generator/glob.js';
+
+describe('globToRegExp', () => {
+  it('should keep * and ? within a path segment', () => {
+    expect(globToRegExp('*.proto').test('user.proto')).toBe(true);
+    expect(globToRegExp('*.proto').test('v1/user.proto')).toBe(false);
+    expect(globToRegExp('v?/user.proto').test('v1/user.proto')).toBe(true);
+  });
+
+  it('should match any number of directories with **', () => {
+    const glob = globToRegExp('**/testdata/**');
+    expect(glob.test('testdata/a.proto')).toBe(true);
+    expect(glob.test('api/v1/testdata/a.proto')).toBe(true);
+    expect(glob.test('api/v1/a.proto')).toBe(false);
+  });
+
+  it('should support alternatives and character classes', () => {
+    expect(globToRegExp('{api,admin}/v[12]/*.proto').test('admin/v2/user.proto')).toBe(true);
+    expect(globToRegExp('{api,admin}/v[!12]/*.proto').test('admin/v2/user.proto')).toBe(false);
+  });
+});
+
+describe('matchesGlobs', () => {
+  it('should require an include match and no exclude match', () => {
+    expect(matchesGlobs('api/user.proto')).toBe(true);
+    expect(matchesGlobs('api/user.proto', ['api/**'], ['**/internal/**'])).toBe(true);
+    expect(matchesGlobs('api/internal/user.proto', ['api/**'], ['**/internal/**'])).toBe(false);
+    expect(matchesGlobs('vendor/user.proto', ['./api/**'])).toBe(false);
+  });
+});
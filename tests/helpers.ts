@@ -0,0 +1,13 @@
+import type { ParsedSchema, ProtoEnum, ProtoField, ProtoMessage } from '../src/types/index.js';
+
+/**
+ * A singular, non-optional field; `extra` sets anything else
+ */
+export const field = (name: string, number: number, type: string = 'string', extra: Partial<ProtoField> = {}): ProtoField =>
+  ({ name, type, repeated: false, optional: false, number, ...extra });
+
+/**
+ * A schema of a single file in the `test` package
+ */
+export const schemaOf = (messages: ProtoMessage[], enums: ProtoEnum[] = []): ParsedSchema =>
+  ({ files: [{ package: 'test', services: [], messages, enums, imports: [] }] });
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { renderJsDoc, renderLineComment } from '../src/generator/jsdoc.js';
+
+describe('renderJsDoc', () => {
+  it('should prefix every line and escape comment terminators', () => {
+    expect(renderJsDoc({ description: 'Matches users/*/tasks\n\n- one\n  - nested' }, '  ')).toBe(
+      '  /**\n   * Matches users/*\\/tasks\n   *\n   * - one\n   *   - nested\n   */\n'
+    );
+  });
+
+  it('should keep both the leading and the trailing comment, and detached comments above the block', () => {
+    const doc = renderJsDoc({
+      description: 'Trailing',
+      comments: { leading: 'Leading\n    code', trailing: 'Trailing', detached: ['Section'] },
+      tags: ['@deprecated']
+    });
+
+    expect(doc).toBe('// Section\n\n/**\n * Leading\n *     code\n *\n * Trailing\n * @deprecated\n */\n');
+  });
+
+  it('should pretty-print JSON examples', () => {
+    expect(renderJsDoc({ example: '{"id":"t-1"}', exampleTitle: 'Response' })).toBe(
+      '/**\n * @example Response\n * ```json\n * {\n *   "id": "t-1"\n * }\n * ```\n */\n'
+    );
+    expect(renderJsDoc({ example: 'not json' })).toBe('/**\n * @example\n * not json\n */\n');
+  });
+
+  it('should render nothing without content', () => {
+    expect(renderJsDoc({})).toBe('');
+    expect(renderLineComment('One\n\nTwo', '  ')).toBe('  // One\n  //\n  // Two\n');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { JSONSchemaGenerator } from '../src/generator/json-schema-generator.js';
+import type { ParsedSchema } from '../src/types/index.js';
+import { field, schemaOf } from './helpers.js';
+
+const schema: ParsedSchema = {
+  title: 'Users API',
+  files: [{
+    package: 'users.v1',
+    services: [],
+    enums: [{
+      name: 'Role',
+      description: 'What a user may do',
+      values: [{ name: 'ROLE_UNSPECIFIED', number: 0 }, { name: 'ROLE_ADMIN', number: 1 }]
+    }],
+    messages: [
+      {
+        name: 'User',
+        description: 'A registered user',
+        example: '{"id": "u-1", "emailAddress": "ada@example.com"}',
+        fields: [
+          field('id', 1, 'string', { behaviors: ['OUTPUT_ONLY'] }),
+          field('email_address', 2, 'string', { description: 'Where we write to', rules: { format: 'email' } }),
+          field('role', 3, 'Role'),
+          field('created_at', 4, 'Timestamp'),
+          field('quota', 5, 'int64', { optional: true }),
+          field('manager', 6, 'User', { optional: true }),
+          field('tags', 7, 'string', { repeated: true, rules: { maxItems: 5, items: { minLen: 1 } } })
+        ]
+      },
+      {
+        name: 'CreateUserRequest',
+        isRequest: true,
+        fields: [
+          field('user', 1, 'User'),
+          field('phone', 2, 'string', { optional: true, oneof: 'contact' }),
+          field('website', 3, 'string', { optional: true, oneof: 'contact' })
+        ],
+        oneofs: [{ name: 'contact', fields: ['phone', 'website'], required: true }]
+      }
+    ],
+    imports: []
+  }, {
+    package: 'teams.v1',
+    services: [],
+    messages: [{ name: 'Team', fields: [field('name', 1), field('default_role', 2, 'Role')] }],
+    imports: ['users.proto']
+  }]
+};
+
+describe('JSONSchemaGenerator', () => {
+  it('should bundle every enum and message variant under $defs', () => {
+    const bundle = JSON.parse(new JSONSchemaGenerator().generateBundle(schema));
+
+    expect(bundle.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(bundle.title).toBe('Users API');
+    expect(Object.keys(bundle.$defs)).toEqual(['Role', 'User', 'UserInput', 'CreateUserRequest', 'Team']);
+    expect(bundle.$defs.Role).toEqual({ description: 'What a user may do', type: 'string', enum: ['ROLE_UNSPECIFIED', 'ROLE_ADMIN'] });
+    expect(bundle.$defs.User).toEqual({
+      description: 'A registered user',
+      type: 'object',
+      properties: {
+        id: { type: 'string', readOnly: true },
+        emailAddress: { description: 'Where we write to', type: 'string', format: 'email' },
+        role: { $ref: '#/$defs/Role' },
+        createdAt: { type: 'string', format: 'date-time' },
+        quota: { type: 'string', format: 'int64', pattern: '^-?[0-9]+$' },
+        manager: { $ref: '#/$defs/User' },
+        tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 5 }
+      },
+      required: ['id', 'emailAddress', 'role', 'createdAt', 'tags'],
+      examples: [{ id: 'u-1', emailAddress: 'ada@example.com' }]
+    });
+    expect(bundle.$defs.UserInput.properties.manager).toEqual({ $ref: '#/$defs/UserInput' });
+    expect(bundle.$defs.UserInput.properties.id).toBeUndefined();
+    expect(bundle.$defs.UserInput.examples).toEqual([{ emailAddress: 'ada@example.com' }]);
+    expect(bundle.$defs.CreateUserRequest.properties.user).toEqual({ $ref: '#/$defs/UserInput' });
+    expect(bundle.$defs.CreateUserRequest.allOf).toEqual([{ oneOf: [{ required: ['phone'] }, { required: ['website'] }] }]);
+  });
+
+  it('should write a document per enum and message that refers to the others by file name', () => {
+    const files = new JSONSchemaGenerator({ fieldNaming: 'original', omitEnumUnspecified: true }).generateMessageSchemas(schema);
+
+    expect(Object.keys(files)).toEqual(['Role.json', 'User.json', 'UserInput.json', 'CreateUserRequest.json', 'Team.json']);
+    const user = JSON.parse(files['User.json']!);
+    expect(user.$id).toBe('User.json');
+    expect(user.title).toBe('User');
+    expect(user.properties.email_address).toBeDefined();
+    expect(user.properties.manager).toEqual({ $ref: 'User.json' });
+    expect(JSON.parse(files['CreateUserRequest.json']!).properties.user).toEqual({ $ref: 'UserInput.json' });
+  });
+
+  it('should share enum documents between the messages of every file that uses them', () => {
+    const files = new JSONSchemaGenerator({ omitEnumUnspecified: true }).generateMessageSchemas(schema);
+    const document = (name: string) => JSON.parse(files[`${name}.json`]!);
+
+    expect(document('Role')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'Role.json',
+      $comment: 'This file is auto-generated from protobuf definitions. Do not edit manually.',
+      title: 'Role',
+      description: 'What a user may do',
+      type: 'string',
+      enum: ['ROLE_ADMIN']
+    });
+    expect(document('User').properties.role).toEqual({ $ref: 'Role.json' });
+    expect(document('UserInput').properties.role).toEqual({ $ref: 'Role.json' });
+    expect(document('Team').properties.defaultRole).toEqual({ $ref: 'Role.json' });
+    expect(document('Team').$defs).toBeUndefined();
+  });
+
+  it('should describe oneof members as exclusive properties in either oneof style', () => {
+    const payment = schemaOf([{
+      name: 'PaymentRequest',
+      isRequest: true,
+      fields: [
+        field('card', 1, 'string', { optional: true, oneof: 'method' }),
+        field('iban', 2, 'string', { optional: true, oneof: 'method' })
+      ],
+      oneofs: [{ name: 'method', fields: ['card', 'iban'] }]
+    }]);
+
+    const union = JSON.parse(new JSONSchemaGenerator().generateBundle(payment)).$defs.PaymentRequest;
+    const tagged = JSON.parse(new JSONSchemaGenerator({ oneofStyle: 'tagged' }).generateBundle(payment)).$defs.PaymentRequest;
+
+    expect(union).toEqual({
+      type: 'object',
+      properties: { card: { type: 'string' }, iban: { type: 'string' } },
+      allOf: [{
+        oneOf: [
+          { required: ['card'] },
+          { required: ['iban'] },
+          { not: { anyOf: [{ required: ['card'] }, { required: ['iban'] }] } }
+        ]
+      }]
+    });
+    expect(tagged).toEqual(union);
+  });
+
+  it('should describe map fields as objects with typed values and keys', () => {
+    const inventory = schemaOf([{
+      name: 'Inventory',
+      fields: [
+        field('stock', 1, 'int32', { keyType: 'string', rules: { maxItems: 10, values: { gte: 0 } } }),
+        field('bins', 2, 'Inventory', { keyType: 'uint32' }),
+        field('flags', 3, 'string', { keyType: 'bool' })
+      ]
+    }]);
+
+    expect(JSON.parse(new JSONSchemaGenerator().generateBundle(inventory)).$defs.Inventory.properties).toEqual({
+      stock: { type: 'object', additionalProperties: { type: 'integer', minimum: 0 }, maxProperties: 10 },
+      bins: { type: 'object', propertyNames: { pattern: '^[0-9]+$' }, additionalProperties: { $ref: '#/$defs/Inventory' } },
+      flags: { type: 'object', propertyNames: { enum: ['true', 'false'] }, additionalProperties: { type: 'string' } }
+    });
+  });
+
+  it('should describe well-known types in their JSON form', () => {
+    const job = schemaOf([{
+      name: 'Job',
+      fields: [
+        field('timeout', 1, 'google.protobuf.Duration'),
+        field('params', 2, 'google.protobuf.Struct'),
+        field('result', 3, 'google.protobuf.Value'),
+        field('retries', 4, 'google.protobuf.Int32Value'),
+        field('budget', 5, 'google.protobuf.UInt64Value'),
+        field('label', 6, 'google.protobuf.StringValue'),
+        field('update_mask', 7, 'google.protobuf.FieldMask'),
+        field('details', 8, 'google.protobuf.Any'),
+        field('nothing', 9, 'google.protobuf.Empty')
+      ]
+    }]);
+
+    expect(JSON.parse(new JSONSchemaGenerator().generateBundle(job)).$defs.Job.properties).toEqual({
+      timeout: { type: 'string', pattern: '^-?[0-9]+(\\.[0-9]{1,9})?s$' },
+      params: { type: 'object' },
+      result: {},
+      retries: { type: ['integer', 'null'] },
+      budget: { type: ['string', 'null'], format: 'uint64', pattern: '^[0-9]+$' },
+      label: { type: ['string', 'null'] },
+      updateMask: { type: 'string' },
+      details: { type: 'object', properties: { '@type': { type: 'string' } }, required: ['@type'] },
+      nothing: { type: 'object', maxProperties: 0 }
+    });
+  });
+
+  it('should describe 64-bit integers and timestamps as JSON strings whatever the TypeScript mapping', () => {
+    const counter = schemaOf([{
+      name: 'Counter',
+      fields: [field('total', 1, 'int64'), field('limit', 2, 'uint64'), field('reset_at', 3, 'Timestamp')]
+    }]);
+    const propertiesWith = (options: ConstructorParameters<typeof JSONSchemaGenerator>[0]) =>
+      JSON.parse(new JSONSchemaGenerator(options).generateBundle(counter)).$defs.Counter.properties;
+
+    const expected = {
+      total: { type: 'string', format: 'int64', pattern: '^-?[0-9]+$' },
+      limit: { type: 'string', format: 'uint64', pattern: '^[0-9]+$' },
+      resetAt: { type: 'string', format: 'date-time' }
+    };
+    expect(propertiesWith({})).toEqual(expected);
+    expect(propertiesWith({ bigintAsNumber: true })).toEqual(expected);
+    expect(propertiesWith({ bigintAsString: true, dateAsString: true })).toEqual(expected);
+  });
+});
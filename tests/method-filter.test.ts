@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { matchesMethodSelector, selectMethods } from '../src/generator/method-filter.js';
+import type { ParsedSchema, ProtoMethod, ProtoService } from '../src/types/index.js';
+
+const method = (name: string, inputType: string, outputType: string, tags?: string[]): ProtoMethod =>
+  ({ name, fullName: `users.v1.UserService.${name}`, inputType, outputType, httpMethod: 'POST', httpPath: `/${name}`, tags });
+
+const service: ProtoService = {
+  name: 'UserService',
+  fullName: 'users.v1.UserService',
+  package: 'users.v1',
+  methods: [
+    method('GetUser', 'users.v1.GetUserRequest', 'users.v1.User', ['users']),
+    method('DeleteUser', 'users.v1.DeleteUserRequest', 'users.v1.DeleteUserResponse', ['admin'])
+  ]
+};
+
+describe('matchesMethodSelector', () => {
+  it('should match short and fully-qualified names with globs', () => {
+    const [getUser] = service.methods;
+
+    expect(matchesMethodSelector(service, getUser!, 'UserService')).toBe(true);
+    expect(matchesMethodSelector(service, getUser!, 'UserService.Get*')).toBe(true);
+    expect(matchesMethodSelector(service, getUser!, 'users.v1.*')).toBe(true);
+    expect(matchesMethodSelector(service, getUser!, 'users.*')).toBe(false);
+    expect(matchesMethodSelector(service, getUser!, 'users.**')).toBe(true);
+  });
+
+  it('should match packages and openapiv2 tags', () => {
+    const [getUser, deleteUser] = service.methods;
+
+    expect(matchesMethodSelector(service, getUser!, 'package:users.*')).toBe(true);
+    expect(matchesMethodSelector(service, getUser!, 'package:billing.*')).toBe(false);
+    expect(matchesMethodSelector(service, getUser!, 'tag:users')).toBe(true);
+    expect(matchesMethodSelector(service, deleteUser!, 'tag:users')).toBe(false);
+  });
+});
+
+describe('selectMethods', () => {
+  const schema: ParsedSchema = {
+    files: [{
+      package: 'users.v1',
+      services: [service, { name: 'AuditService', fullName: 'users.v1.AuditService', package: 'users.v1', methods: [] }],
+      messages: [
+        { name: 'GetUserRequest', fullName: 'users.v1.GetUserRequest', fields: [] },
+        { name: 'User', fullName: 'users.v1.User', fields: [{ name: 'role', type: 'users.v1.Role', repeated: false, optional: false, number: 1 }] },
+        { name: 'DeleteUserRequest', fullName: 'users.v1.DeleteUserRequest', fields: [] },
+        { name: 'DeleteUserResponse', fullName: 'users.v1.DeleteUserResponse', fields: [] }
+      ],
+      enums: [{ name: 'Role', fullName: 'users.v1.Role', values: [] }],
+      imports: []
+    }]
+  };
+
+  it('should keep the selected methods and the types they use', () => {
+    const [file] = selectMethods(schema, ['tag:users']).files;
+
+    expect(file!.services.map(s => s.methods.map(m => m.name))).toEqual([['GetUser']]);
+    expect(file!.messages.map(message => message.name)).toEqual(['GetUserRequest', 'User']);
+    expect(file!.enums!.map(protoEnum => protoEnum.name)).toEqual(['Role']);
+  });
+
+  it('should leave out excluded methods', () => {
+    const [file] = selectMethods(schema, [], ['UserService.Delete*']).files;
+
+    expect(file!.services[0]!.methods.map(m => m.name)).toEqual(['GetUser']);
+    expect(file!.messages.map(message => message.name)).not.toContain('DeleteUserRequest');
+  });
+});
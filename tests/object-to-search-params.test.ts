@@ -208,4 +208,28 @@ describe('objectToSearchParams', () => {
     expect(urlString).not.toContain('object+Object');
     expect(urlString).not.toContain('%5Bobject+Object%5D');
   });
-});
\ No newline at end of file
+
+  it('should serialize map fields with bracket notation', () => {
+    const obj = {
+      labels: { env: 'prod', team: 'core' },
+      filter: {
+        ownerTags: { region: 'eu' },
+        name: 'db'
+      }
+    };
+
+    const params = client.objectToSearchParams(obj, { mapFields: ['labels', 'filter.ownerTags'] });
+
+    expect(params.get('labels[env]')).toBe('prod');
+    expect(params.get('labels[team]')).toBe('core');
+    expect(params.get('filter.ownerTags[region]')).toBe('eu');
+    expect(params.get('filter.name')).toBe('db');
+    expect(params.has('labels.env')).toBe(false);
+  });
+
+  it('should keep dot notation for objects not declared as maps', () => {
+    const params = client.objectToSearchParams({ labels: { env: 'prod' } });
+
+    expect(params.get('labels.env')).toBe('prod');
+  });
+});
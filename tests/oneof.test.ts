@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { packOneofs, unpackOneofs } from '../src/runtime/oneof.js';
+import type { OneofDescriptors } from '../src/runtime/oneof.js';
+
+describe('oneof conversion', () => {
+  const descriptors: OneofDescriptors = {
+    Payment: { oneofs: { method: ['card', 'bankAccount'] } },
+    Order: { fields: { payment: 'Payment', history: 'Payment' }, mapFields: { byRegion: 'Payment' } }
+  };
+
+  it('should pack tagged oneofs into member fields', () => {
+    const wire = packOneofs({ amount: 5, method: { case: 'card', value: { number: '4242' } } }, 'Payment', descriptors);
+
+    expect(wire).toEqual({ amount: 5, card: { number: '4242' } });
+  });
+
+  it('should drop an unset tagged oneof', () => {
+    expect(packOneofs({ amount: 5 }, 'Payment', descriptors)).toEqual({ amount: 5 });
+  });
+
+  it('should unpack member fields into tagged oneofs', () => {
+    const message = unpackOneofs({ amount: 5, bankAccount: { iban: 'DE00' } }, 'Payment', descriptors);
+
+    expect(message).toEqual({ amount: 5, method: { case: 'bankAccount', value: { iban: 'DE00' } } });
+  });
+
+  it('should convert nested, repeated and map message fields', () => {
+    const order = {
+      payment: { method: { case: 'card', value: 'a' } },
+      history: [{ method: { case: 'bankAccount', value: 'b' } }],
+      byRegion: { eu: { method: { case: 'card', value: 'c' } } }
+    };
+
+    const wire = packOneofs(order, 'Order', descriptors);
+
+    expect(wire).toEqual({
+      payment: { card: 'a' },
+      history: [{ bankAccount: 'b' }],
+      byRegion: { eu: { card: 'c' } }
+    });
+    expect(unpackOneofs(wire, 'Order', descriptors)).toEqual(order);
+  });
+
+  it('should not mutate the input', () => {
+    const input = { method: { case: 'card', value: 'a' } };
+    packOneofs(input, 'Payment', descriptors);
+
+    expect(input).toEqual({ method: { case: 'card', value: 'a' } });
+  });
+});
@@ -1,4 +1,8 @@
 import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
 import { ProtoParser } from '../src/generator/parser.js';
 
 describe('ProtoParser', () => {
@@ -18,4 +22,560 @@ describe('ProtoParser', () => {
       expect(error).toBeDefined();
     }
   });
-});
\ No newline at end of file
+});
+describe('ProtoParser enums', () => {
+  const fixture = path.join(__dirname, 'fixtures/proto/enums.proto');
+
+  it('should extract top-level and nested enums', async () => {
+    const parser = new ProtoParser({ alternateCommentMode: true });
+    const file = await parser.parseFile(fixture);
+
+    const names = file.enums?.map(e => e.name);
+    expect(names).toEqual(['UserStatus', 'Role']);
+
+    const status = file.enums?.find(e => e.name === 'UserStatus');
+    expect(status?.description).toBe('Lifecycle state of a user');
+    expect(status?.values).toEqual([
+      { name: 'USER_STATUS_UNSPECIFIED', number: 0, description: undefined },
+      {
+        name: 'USER_STATUS_ACTIVE',
+        number: 1,
+        description: 'The user can sign in',
+        comments: { leading: 'The user can sign in' }
+      },
+      { name: 'USER_STATUS_SUSPENDED', number: 2, description: undefined }
+    ]);
+  });
+
+  it('should reference enums by their fully-qualified name', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(fixture);
+
+    const user = file.messages.find(m => m.name === 'User');
+    expect(user?.fields.find(f => f.name === 'status')?.type).toBe('enums.UserStatus');
+    expect(user?.fields.find(f => f.name === 'role')?.type).toBe('enums.User.Role');
+  });
+});
+
+describe('ProtoParser map fields', () => {
+  it('should record key and value types of map fields', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/maps.proto'));
+
+    const resource = file.messages.find(m => m.name === 'Resource');
+    const labels = resource?.fields.find(f => f.name === 'labels');
+    const aliases = resource?.fields.find(f => f.name === 'aliases');
+
+    expect(labels).toMatchObject({ type: 'maps.Label', keyType: 'string', repeated: false });
+    expect(aliases).toMatchObject({ type: 'string', keyType: 'int64', repeated: false });
+    expect(resource?.fields.find(f => f.name === 'id')?.keyType).toBeUndefined();
+  });
+});
+
+describe('ProtoParser oneofs', () => {
+  it('should record oneof groups and their members', async () => {
+    const parser = new ProtoParser({ alternateCommentMode: true });
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/oneofs.proto'));
+
+    const payment = file.messages.find(m => m.name === 'PaymentRequest');
+    expect(payment?.oneofs).toEqual([
+      {
+        name: 'method',
+        fields: ['card', 'bank_account'],
+        description: 'How the payment is made',
+        comments: { leading: 'How the payment is made' }
+      }
+    ]);
+    expect(payment?.fields.find(f => f.name === 'card')).toMatchObject({ oneof: 'method', optional: true });
+  });
+
+  it('should treat proto3 optional fields as optional without a oneof group', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/oneofs.proto'));
+
+    const payment = file.messages.find(m => m.name === 'PaymentRequest');
+    const note = payment?.fields.find(f => f.name === 'note');
+    const amount = payment?.fields.find(f => f.name === 'amount');
+
+    expect(note).toMatchObject({ optional: true, oneof: undefined });
+    expect(amount?.optional).toBe(false);
+  });
+});
+
+describe('ProtoParser qualified names', () => {
+  it('should record packages and fully-qualified names', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/billing.proto'));
+
+    expect(file.package).toBe('billing.v1');
+
+    const invoice = file.messages.find(m => m.name === 'Invoice');
+    expect(invoice).toMatchObject({ fullName: 'billing.v1.Invoice', package: 'billing.v1' });
+    expect(invoice?.fields.find(f => f.name === 'legacy')?.type).toBe('legacy.Invoice');
+
+    const service = file.services[0];
+    expect(service).toMatchObject({ name: 'InvoiceService', fullName: 'billing.v1.InvoiceService', package: 'billing.v1' });
+    expect(service?.methods[0]).toMatchObject({ inputType: 'billing.v1.GetInvoiceRequest', outputType: 'billing.v1.Invoice' });
+  });
+});
+
+describe('ProtoParser json names', () => {
+  it('should read json_name and derive the default JSON name otherwise', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'people.proto'), [
+        'syntax = "proto3";',
+        'message Person {',
+        '  string first_name = 1 [json_name = "givenName"];',
+        '  string address_line_1 = 2;',
+        '}',
+        ''
+      ].join('\n'));
+
+      const file = await new ProtoParser().parseFile(path.join(dir, 'people.proto'));
+
+      expect(file.messages[0]!.fields.map(field => field.jsonName)).toEqual(['givenName', 'addressLine1']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ProtoParser file selection', () => {
+  const writeProtos = (dir: string, files: Record<string, string>): void => {
+    for (const [name, source] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+      fs.writeFileSync(path.join(dir, name), source);
+    }
+  };
+
+  it('should parse several roots, filtered by globs, and resolve imports from include paths', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      writeProtos(dir, {
+        'api/users.proto': 'syntax = "proto3";\nimport "common/ping.proto";\nservice Users { rpc Ping(common.PingRequest) returns (common.PingRequest); }\n',
+        'api/internal/debug.proto': 'syntax = "proto3";\nservice Debug {}\n',
+        'admin/admin.proto': 'syntax = "proto3";\nservice Admin {}\n',
+        'vendor/common/ping.proto': 'syntax = "proto3";\npackage common;\nmessage PingRequest {}\nservice Pinger {}\n'
+      });
+      const roots = [path.join(dir, 'api'), path.join(dir, 'admin')];
+      const parser = new ProtoParser({ includePath: [...roots, path.join(dir, 'vendor')], exclude: ['internal/**'] });
+
+      const schema = await parser.parseFromDirectory(roots);
+
+      expect(schema.files.flatMap(file => file.services.map(service => service.name)).sort()).toEqual(['Admin', 'Users']);
+      expect(schema.files.flatMap(file => file.messages.map(message => message.fullName))).toContain('common.PingRequest');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ProtoParser in-memory sources', () => {
+  const jsonDescriptor = (): Record<string, any> => protobuf.parse([
+    'syntax = "proto3";',
+    'package notes.v1;',
+    'import "google/api/annotations.proto";',
+    '// A short note',
+    'message Note { string id = 1; }',
+    'message GetNoteRequest { string id = 1; }',
+    'service Notes {',
+    '  rpc GetNote(GetNoteRequest) returns (Note) { option (google.api.http) = { get: "/v1/notes/{id}" }; }',
+    '}'
+  ].join('\n'), { keepCase: true, alternateCommentMode: true }).root.toJSON({ keepComments: true });
+
+  it('should parse virtual files and resolve their imports against each other', async () => {
+    const parser = new ProtoParser({ alternateCommentMode: true });
+    const schema = await parser.parseFromSources({
+      'api/users.proto': [
+        'syntax = "proto3";',
+        'package users.v1;',
+        'import "google/api/annotations.proto";',
+        'import "api/common.proto";',
+        'import "types.proto";',
+        '// Manages users',
+        'service Users {',
+        '  rpc GetUser(common.v1.Id) returns (User) { option (google.api.http) = { get: "/v1/users/{value}" }; }',
+        '}'
+      ].join('\n'),
+      'api/types.proto': 'syntax = "proto3";\npackage users.v1;\nmessage User { string name = 1; }\n',
+      './api/common.proto': 'syntax = "proto3";\npackage common.v1;\nmessage Id { string value = 1; }\n'
+    });
+
+    const users = schema.files.find(file => file.services.length > 0)!;
+    expect(schema.files).toHaveLength(3);
+    expect(users.imports).toEqual(['google/api/annotations.proto', 'api/common.proto', 'types.proto']);
+    expect(users.services[0]).toMatchObject({
+      name: 'Users',
+      description: 'Manages users',
+      location: { file: 'api/users.proto', line: 7, column: 1 }
+    });
+    expect(users.services[0]!.methods[0]).toMatchObject({ inputType: 'common.v1.Id', outputType: 'users.v1.User', httpPath: '/v1/users/{value}' });
+    expect(users.messages.map(message => message.fullName).sort()).toEqual(['common.v1.Id', 'users.v1.User']);
+  });
+
+  it('should parse protobufjs JSON descriptors, as an object or as a virtual file', async () => {
+    const fromJSON = await new ProtoParser().parseFromJSON(jsonDescriptor());
+    const fromSources = await new ProtoParser().parseFromSources({ 'notes.json': JSON.stringify(jsonDescriptor()) });
+
+    expect(fromJSON.files).toHaveLength(1);
+    expect(fromJSON.files[0]).toMatchObject({ package: 'notes.v1', imports: [] });
+    expect(fromJSON.files[0]!.services[0]!.methods[0]).toMatchObject({ name: 'GetNote', httpMethod: 'GET', httpPath: '/v1/notes/{id}' });
+    expect(fromJSON.files[0]!.messages.find(message => message.name === 'Note')?.description).toBe('A short note');
+    expect(fromSources).toEqual(fromJSON);
+  });
+});
+
+describe('ProtoParser comments', () => {
+  it('should keep leading, trailing and detached comments with their indentation', async () => {
+    const parser = new ProtoParser({ includePath: [path.join(__dirname, 'fixtures/proto')] });
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/annotated.proto'));
+    const task = file.messages.find(message => message.name === 'Task')!;
+
+    expect(task.comments).toEqual({
+      leading: 'A unit of work.\n\n    task := Task{Title: "Write docs"}',
+      detached: ['Tasks']
+    });
+    expect(task.fields.map(field => field.comments)).toEqual([
+      { trailing: 'Assigned by the server, e.g. users/*/tasks/t-1' },
+      { leading: 'Short summary' },
+      undefined
+    ]);
+  });
+
+  it('should read examples from openapiv2 options', async () => {
+    const parser = new ProtoParser({ includePath: [path.join(__dirname, 'fixtures/proto')] });
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/annotated.proto'));
+    const task = file.messages.find(message => message.name === 'Task')!;
+
+    expect(task.example).toBe('{"id": "t-1", "title": "Write docs"}');
+    expect(task.fields.find(field => field.name === 'title')?.example).toBe('"Write docs"');
+    expect(file.services[0]!.methods[0]!.example).toBe('{"id": "t-1"}');
+  });
+});
+
+describe('ProtoParser deprecation', () => {
+  it('should record deprecated messages, fields, enum values, services and methods', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'legacy.proto'), [
+        'syntax = "proto3";',
+        'message Profile {',
+        '  option deprecated = true;',
+        '  string nickname = 1 [deprecated = true];',
+        '  string name = 2;',
+        '}',
+        'enum Tier {',
+        '  TIER_UNSPECIFIED = 0;',
+        '  TIER_GOLD = 1 [deprecated = true];',
+        '}',
+        'service Profiles {',
+        '  option deprecated = true;',
+        '  rpc GetProfile(Profile) returns (Profile) { option deprecated = true; }',
+        '}',
+        ''
+      ].join('\n'));
+
+      const file = await new ProtoParser().parseFile(path.join(dir, 'legacy.proto'));
+
+      expect(file.messages[0]!.deprecated).toBe(true);
+      expect(file.messages[0]!.fields.map(field => field.deprecated)).toEqual([true, undefined]);
+      expect(file.enums![0]!.values.map(value => value.deprecated)).toEqual([undefined, true]);
+      expect(file.services[0]!.deprecated).toBe(true);
+      expect(file.services[0]!.methods[0]!.deprecated).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ProtoParser nested messages', () => {
+  it('should extract nested messages and resolve references to them', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/nested.proto'));
+
+    const lineItem = file.messages.find(m => m.name === 'LineItem');
+    expect(lineItem).toMatchObject({ fullName: 'orders.Order.LineItem', package: 'orders' });
+    expect(lineItem?.fields.find(f => f.name === 'kind')?.type).toBe('orders.Order.LineItem.Kind');
+
+    const order = file.messages.find(m => m.name === 'Order');
+    expect(order?.fields.find(f => f.name === 'items')?.type).toBe('orders.Order.LineItem');
+
+    const shipment = file.messages.find(m => m.name === 'Shipment');
+    expect(shipment?.fields.find(f => f.name === 'item')?.type).toBe('orders.Order.LineItem');
+  });
+});
+
+describe('ProtoParser bundled protos', () => {
+  it('should resolve google/api and openapiv2 imports without vendored copies', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/annotated.proto'));
+
+    expect(file.services).toHaveLength(1);
+    const [getTask, ping] = file.services[0]!.methods;
+    expect(getTask).toMatchObject({ httpMethod: 'GET', httpPath: '/v1/tasks/{id}', summary: 'Get a task', tags: ['tasks'] });
+    expect(ping).toMatchObject({ inputType: 'google.protobuf.Empty', outputType: 'google.protobuf.Empty', httpMethod: 'POST' });
+
+    const task = file.messages.find(m => m.name === 'Task');
+    expect(task?.fields.find(f => f.name === 'timeout')?.type).toBe('google.protobuf.Duration');
+  });
+
+  it('should not emit types declared by the bundled protos', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/annotated.proto'));
+
+    expect(file.messages.map(m => m.fullName)).toEqual(['annotated.v1.Task', 'annotated.v1.GetTaskRequest']);
+    expect(file.enums).toEqual([]);
+  });
+});
+
+describe('ProtoParser http rules', () => {
+  const fixture = path.join(__dirname, 'fixtures/proto/http.proto');
+
+  it('should read body and response_body selectors', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(fixture);
+    const methods = file.services[0]!.methods;
+
+    expect(methods.find(m => m.name === 'UpdateUser')).toMatchObject({ httpMethod: 'PATCH', body: 'user' });
+    expect(methods.find(m => m.name === 'GetUser')).toMatchObject({ body: '', responseBody: 'user' });
+    expect(methods.find(m => m.name === 'ArchiveUser')).toMatchObject({ httpMethod: 'POST', body: '' });
+  });
+
+  it('should read additional bindings and custom verbs', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(fixture);
+    const getUser = file.services[0]!.methods.find(m => m.name === 'GetUser');
+
+    expect(getUser?.additionalBindings).toEqual([
+      { httpMethod: 'GET', httpPath: '/v1/me', body: '' },
+      { httpMethod: 'HEAD', httpPath: '/v1/users/{id}', body: '' }
+    ]);
+  });
+});
+
+describe('ProtoParser field behaviors', () => {
+  it('should read every google.api.field_behavior annotation of a field', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'users.proto'), [
+        'syntax = "proto3";',
+        'import "google/api/field_behavior.proto";',
+        'message User {',
+        '  string name = 1 [(google.api.field_behavior) = IDENTIFIER];',
+        '  string email = 2 [(google.api.field_behavior) = REQUIRED, (google.api.field_behavior) = IMMUTABLE];',
+        '  string nickname = 3;',
+        '}',
+        ''
+      ].join('\n'));
+
+      const file = await new ProtoParser().parseFile(path.join(dir, 'users.proto'));
+
+      expect(file.messages[0]!.fields.map(field => field.behaviors)).toEqual([
+        ['IDENTIFIER'],
+        ['REQUIRED', 'IMMUTABLE'],
+        undefined
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ProtoParser API metadata', () => {
+  it('should read the openapiv2_swagger file option', async () => {
+    const parser = new ProtoParser();
+    const file = await parser.parseFile(path.join(__dirname, 'fixtures/proto/annotated.proto'));
+
+    expect(file.metadata).toEqual({
+      title: 'Annotated API',
+      version: '1.2',
+      description: 'Tasks and pings',
+      host: 'api.example.com',
+      basePath: '/annotated/',
+      schemes: ['http', 'https'],
+      securityDefinitions: {
+        ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    });
+  });
+
+  it('should derive schema metadata and base URL from the declaring file', async () => {
+    const parser = new ProtoParser();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      fs.copyFileSync(path.join(__dirname, 'fixtures/proto/annotated.proto'), path.join(dir, 'annotated.proto'));
+      fs.copyFileSync(path.join(__dirname, 'fixtures/proto/enums.proto'), path.join(dir, 'enums.proto'));
+
+      const schema = await parser.parseFromDirectory(dir);
+
+      expect(schema).toMatchObject({
+        title: 'Annotated API',
+        version: '1.2',
+        baseUrl: 'https://api.example.com/annotated'
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ProtoParser source locations', () => {
+  it('should record the file, position and full name of every declaration', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      fs.mkdirSync(path.join(dir, 'shop'));
+      fs.writeFileSync(path.join(dir, 'shop/orders.proto'), [
+        'syntax = "proto3";',
+        'package shop;',
+        '',
+        'message Order {',
+        '  string id = 1;',
+        '  message Item {',
+        '    string id = 1; // same name as Order.id',
+        '  }',
+        '  oneof payment {',
+        '    string card = 2;',
+        '  }',
+        '}',
+        '',
+        '/* service */ service Orders {',
+        '  rpc GetOrder(Order) returns (Order) {',
+        '    option (google.api.http) = { get: "/v1/orders/{id}" };',
+        '  }',
+        '}',
+        ''
+      ].join('\n'));
+
+      const parser = new ProtoParser({ includePath: [dir] });
+      const file = await parser.parseFile(path.join(dir, 'shop/orders.proto'));
+      const [order, item] = file.messages;
+      const [method] = file.services[0]!.methods;
+
+      expect(order!.location).toEqual({ file: 'shop/orders.proto', line: 4, column: 1 });
+      expect(order!.fields.map(field => [field.fullName, field.location?.line])).toEqual([
+        ['shop.Order.id', 5],
+        ['shop.Order.card', 10]
+      ]);
+      expect(item!.fields[0]!.location).toEqual({ file: 'shop/orders.proto', line: 7, column: 5 });
+      expect(file.services[0]!.location).toEqual({ file: 'shop/orders.proto', line: 14, column: 15 });
+      expect(method).toMatchObject({
+        fullName: 'shop.Orders.GetOrder',
+        location: { file: 'shop/orders.proto', line: 15, column: 3 }
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ProtoParser custom options', () => {
+  // Descriptor set built with: protoc --include_imports --include_source_info
+  //   --descriptor_set_out=../descriptor/custom-options.binpb custom_options.proto (from tests/fixtures/proto)
+  const createParser = (): ProtoParser => new ProtoParser({
+    includePath: [path.join(__dirname, 'fixtures/proto')],
+    customOptions: ['(acme.api.rate_limit)', 'acme.api.pii']
+  }).registerOption({ name: 'acme.api.public', extract: (value, { kind }) => (kind === 'method' ? value : undefined) });
+
+  it('should attach registered options to methods and fields', async () => {
+    const file = await createParser().parseFile(path.join(__dirname, 'fixtures/proto/custom_options.proto'));
+    const account = file.messages.find(message => message.name === 'Account')!;
+
+    expect(file.services[0]!.methods[0]!.options).toEqual({
+      'acme.api.rate_limit': { requests: 10, per: 'MINUTE' },
+      'acme.api.public': true
+    });
+    expect(account.fields.map(field => field.options)).toEqual([{ 'acme.api.pii': true }, undefined]);
+  });
+
+  it('should decode custom options of descriptor sets through the extensions in the set', async () => {
+    const parser = createParser();
+    const schema = await parser.parseFromDescriptorSet(path.join(__dirname, 'fixtures/descriptor/custom-options.binpb'));
+    const file = schema.files.find(file => file.package === 'custom.v1')!;
+    const fromSource = await parser.parseFile(path.join(__dirname, 'fixtures/proto/custom_options.proto'));
+
+    expect(file.services).toEqual(fromSource.services);
+    expect(file.messages.find(message => message.name === 'Account')).toEqual(
+      fromSource.messages.find(message => message.name === 'Account')
+    );
+  });
+});
+
+describe('ProtoParser validation rules', () => {
+  // Descriptor set built with: protoc -I<bundled protos> --include_imports --include_source_info
+  //   --descriptor_set_out=../descriptor/validation.binpb validation.proto (from tests/fixtures/proto)
+  const createParser = (): ProtoParser => new ProtoParser({ includePath: [path.join(__dirname, 'fixtures/proto')] });
+  const fixture = path.join(__dirname, 'fixtures/proto/validation.proto');
+
+  it('should normalize protovalidate and protoc-gen-validate rules', async () => {
+    const file = await createParser().parseFile(fixture);
+    const request = file.messages.find(message => message.name === 'SignupRequest')!;
+    const rules = Object.fromEntries(request.fields.map(field => [field.name, field.rules]));
+
+    expect(rules).toMatchObject({
+      email: { required: true, format: 'email' },
+      age: { gte: 13, lt: 150 },
+      tags: { maxItems: 3, unique: true, items: { minLen: 1 } },
+      plan: { in: ['PLAN_UNSPECIFIED', 'PLAN_FREE', 'PLAN_PRO'], notIn: ['PLAN_UNSPECIFIED'] },
+      referral_code: { ignoreEmpty: true, prefix: 'REF-' },
+      address: undefined
+    });
+    expect(request.oneofs?.[0]?.required).toBe(true);
+    expect(file.messages.find(message => message.name === 'Address')!.fields[1]!.rules).toEqual({ minLen: 1 });
+  });
+
+  it('should merge the separate option occurrences protoc writes into descriptor sets', async () => {
+    const parser = createParser();
+    const schema = await parser.parseFromDescriptorSet(path.join(__dirname, 'fixtures/descriptor/validation.binpb'));
+    const file = schema.files.find(file => file.package === 'signup.v1')!;
+    const fromSource = await parser.parseFile(fixture);
+    const rulesOf = (messages: typeof file.messages) =>
+      messages.map(message => [message.fields.map(field => field.rules), message.oneofs?.map(oneof => oneof.required)]);
+
+    expect(rulesOf(file.messages)).toEqual(rulesOf(fromSource.messages));
+  });
+});
+
+describe('ProtoParser descriptor sets', () => {
+  // Built with: protoc --include_imports --include_source_info --descriptor_set_out=../descriptor/api.binpb
+  //   annotated.proto enums.proto maps.proto nested.proto oneofs.proto (from tests/fixtures/proto)
+  const descriptorSet = path.join(__dirname, 'fixtures/descriptor/api.binpb');
+  const fixture = (name: string): string => path.join(__dirname, `fixtures/proto/${name}.proto`);
+
+  it('should produce the same files as parsing the proto sources', async () => {
+    const parser = new ProtoParser({
+      includePath: [path.join(__dirname, 'fixtures/proto')],
+      alternateCommentMode: true,
+      preferTrailingComment: true
+    });
+    const schema = await parser.parseFromDescriptorSet(descriptorSet);
+
+    expect(schema.files.map(file => file.package)).toEqual(['annotated.v1', 'enums', 'maps', 'orders', 'oneofs']);
+    for (const [name, pkg] of [['annotated', 'annotated.v1'], ['maps', 'maps'], ['nested', 'orders'], ['oneofs', 'oneofs']]) {
+      const fromSource = await parser.parseFile(fixture(name!));
+      expect(schema.files.find(file => file.package === pkg)).toEqual(fromSource);
+    }
+  });
+
+  it('should read comments from SourceCodeInfo', async () => {
+    const parser = new ProtoParser();
+    const schema = await parser.parseFromDescriptorSet(fs.readFileSync(descriptorSet));
+    const enums = schema.files.find(file => file.package === 'enums')!.enums!;
+    const status = enums.find(protoEnum => protoEnum.name === 'UserStatus')!;
+
+    expect(status.description).toBe('Lifecycle state of a user');
+    expect(status.values.find(value => value.name === 'USER_STATUS_ACTIVE')?.description).toBe('The user can sign in');
+  });
+
+  it('should read custom options and API metadata', async () => {
+    const parser = new ProtoParser();
+    const schema = await parser.parseFromDescriptorSet(descriptorSet);
+    const [service] = schema.files.find(file => file.package === 'annotated.v1')!.services;
+
+    expect(service!.methods[0]).toMatchObject({ httpMethod: 'GET', httpPath: '/v1/tasks/{id}', summary: 'Get a task', tags: ['tasks'] });
+    expect(schema.baseUrl).toBe('https://api.example.com/annotated');
+    expect(schema.securityDefinitions).toEqual({
+      ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { encodePathVariable, omitFields } from '../src/runtime/path.js';
+import { parsePathTemplate } from '../src/generator/path-template.js';
+
+describe('parsePathTemplate', () => {
+  it('should split literals, variables and verbs', () => {
+    const template = parsePathTemplate('/v1/{parent=projects/*}/books/{book_id}:publish');
+
+    expect(template.segments).toEqual([
+      '/v1/',
+      { fieldPath: 'parent', pattern: 'projects/*' },
+      '/books/',
+      { fieldPath: 'book_id' },
+      ':publish'
+    ]);
+    expect(template.variables.map(v => v.fieldPath)).toEqual(['parent', 'book_id']);
+  });
+
+  it('should reject unterminated variables', () => {
+    expect(() => parsePathTemplate('/v1/{name')).toThrow('Unterminated variable');
+  });
+});
+
+describe('encodePathVariable', () => {
+  it('should encode plain variables as a single segment', () => {
+    expect(encodePathVariable('a/b c', 'name')).toBe('a%2Fb%20c');
+    expect(encodePathVariable(42, 'id')).toBe('42');
+  });
+
+  it('should keep separators of pattern variables and encode each segment', () => {
+    expect(encodePathVariable('projects/my project', 'parent', 'projects/*')).toBe('projects/my%20project');
+    expect(encodePathVariable('a/b/c', 'path', '**')).toBe('a/b/c');
+  });
+
+  it('should reject values that do not match the pattern', () => {
+    expect(() => encodePathVariable('folders/1', 'parent', 'projects/*')).toThrow('does not match');
+    expect(() => encodePathVariable('projects/1/extra', 'parent', 'projects/*')).toThrow('does not match');
+  });
+
+  it('should reject missing values', () => {
+    expect(() => encodePathVariable(undefined, 'id')).toThrow('Missing path parameter "id"');
+  });
+});
+
+describe('omitFields', () => {
+  it('should remove top-level and nested fields without mutating the input', () => {
+    const request = { user: { id: '1', name: 'Ada' }, validateOnly: true };
+
+    expect(omitFields(request, ['user.id', 'validateOnly'])).toEqual({ user: { name: 'Ada' } });
+    expect(request.user.id).toBe('1');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
+import { parsePluginParameter, runPlugin } from '../src/generator/plugin.js';
+
+const root = protobuf.Root.fromJSON({
+  nested: {
+    CodeGeneratorRequest: {
+      fields: {
+        file_to_generate: { rule: 'repeated', type: 'string', id: 1 },
+        parameter: { type: 'string', id: 2 },
+        proto_file: { rule: 'repeated', type: 'bytes', id: 15 }
+      }
+    },
+    CodeGeneratorResponse: {
+      fields: {
+        error: { type: 'string', id: 1 },
+        supported_features: { type: 'uint64', id: 2 },
+        file: { rule: 'repeated', type: 'File', id: 15 }
+      },
+      nested: {
+        File: {
+          fields: {
+            name: { type: 'string', id: 1 },
+            content: { type: 'string', id: 15 }
+          }
+        }
+      }
+    },
+    FileDescriptorSet: {
+      fields: {
+        file: { rule: 'repeated', type: 'bytes', id: 1 }
+      }
+    }
+  }
+});
+
+const CodeGeneratorRequest = root.lookupType('CodeGeneratorRequest');
+const CodeGeneratorResponse = root.lookupType('CodeGeneratorResponse');
+const FileDescriptorSet = root.lookupType('FileDescriptorSet');
+
+async function run(parameter?: string, fileToGenerate: string[] = ['annotated.proto']): Promise<any> {
+  const descriptorSet = fs.readFileSync(path.join(__dirname, 'fixtures/descriptor/api.binpb'));
+  const request = CodeGeneratorRequest.encode({
+    file_to_generate: fileToGenerate,
+    parameter,
+    proto_file: (FileDescriptorSet.decode(descriptorSet) as any).file
+  }).finish();
+
+  const response = CodeGeneratorResponse.decode(await runPlugin(request));
+  return CodeGeneratorResponse.toObject(response, { longs: Number });
+}
+
+describe('protoc plugin', () => {
+  it('should respond with the generated files', async () => {
+    const response = await run();
+
+    expect(response.error).toBeUndefined();
+    expect(response.supported_features).toBe(1);
+    expect(response.file.map((file: any) => file.name)).toEqual(['types.ts', 'client.ts', 'package.json', 'README.md']);
+
+    const client = response.file.find((file: any) => file.name === 'client.ts').content;
+    expect(client).toContain('export class APIClient');
+    expect(client).toContain("const defaultBaseUrl = 'https://api.example.com/annotated';");
+  });
+
+  it('should only generate the services of the files to generate', async () => {
+    const response = await run(undefined, ['enums.proto']);
+    const files = Object.fromEntries(response.file.map((file: any) => [file.name, file.content]));
+
+    expect(files['client.ts']).not.toContain('async getTask(');
+    expect(files['client.ts']).not.toContain('async ping(');
+    expect(files['types.ts']).toContain('export type UserStatus =');
+  });
+
+  it('should map the parameter onto generator options', async () => {
+    const response = await run('client_name=TasksClient,date-type=string,generate_filter_builders=false');
+    const files = Object.fromEntries(response.file.map((file: any) => [file.name, file.content]));
+
+    expect(files['client.ts']).toContain('export class TasksClient');
+    expect(files['types.ts']).not.toContain('// Filter Builders');
+    expect(files['types.ts']).toContain('// Sort Builders');
+  });
+
+  it('should add Zod schemas and their dependency when requested', async () => {
+    const response = await run('generate_zod_schemas');
+    const files = Object.fromEntries(response.file.map((file: any) => [file.name, file.content]));
+
+    expect(Object.keys(files)).toEqual(['types.ts', 'schemas.ts', 'client.ts', 'package.json', 'README.md']);
+    expect(files['schemas.ts']).toContain('export const TaskSchema: z.ZodType<Types.Task, z.ZodTypeDef, unknown> = z.object({');
+    expect(JSON.parse(files['package.json']).dependencies.zod).toBeDefined();
+  });
+
+  it('should report invalid parameters through the response', async () => {
+    const response = await run('enum_style=flags');
+
+    expect(response.error).toBe('Parameter "enum_style" must be one of: union, enum, const');
+    expect(response.file).toBeUndefined();
+  });
+});
+
+describe('parsePluginParameter', () => {
+  it('should accept snake_case, kebab-case and camelCase names', () => {
+    expect(parsePluginParameter('base_url=https://api.example.com,packageName=api,omit-enum-unspecified')).toEqual({
+      baseUrl: 'https://api.example.com',
+      packageName: 'api',
+      omitEnumUnspecified: true
+    });
+  });
+
+  it('should collect repeated list parameters', () => {
+    expect(parsePluginParameter('include_methods=tag:users,include_methods=billing.v1.*')).toEqual({
+      includeMethods: ['tag:users', 'billing.v1.*']
+    });
+  });
+
+  it('should reject unknown parameters', () => {
+    expect(() => parsePluginParameter('output=foo')).toThrow('Unknown parameter "output"');
+  });
+});
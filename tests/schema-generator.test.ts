@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import { ZodSchemaGenerator } from '../src/generator/schema-generator.js';
+import { TypeScriptTypeGenerator } from '../src/generator/type-generator.js';
+import type { ProtoEnum, ProtoMessage } from '../src/types/index.js';
+import { field, schemaOf } from './helpers.js';
+
+describe('ZodSchemaGenerator', () => {
+  it('should generate a schema and inferred type per message, after the messages it uses', () => {
+    const result = new ZodSchemaGenerator().generateSchemas(schemaOf([
+      {
+        name: 'User',
+        fields: [
+          field('id', 1),
+          field('display_name', 2, 'string', { optional: true }),
+          field('tags', 3, 'string', { repeated: true }),
+          field('address', 4, 'Address'),
+          field('labels', 5, 'int32', { keyType: 'string' })
+        ]
+      },
+      { name: 'Address', fields: [field('city', 1)] }
+    ]));
+
+    expect(result).toContain("import { z } from 'zod';");
+    expect(result).not.toContain('./types.js');
+    expect(result.indexOf('export const AddressSchema')).toBeLessThan(result.indexOf('export const UserSchema'));
+    expect(result).toContain(`export const UserSchema = z.object({
+  id: z.string(),
+  displayName: z.string().optional(),
+  tags: z.array(z.string()),
+  address: AddressSchema,
+  labels: z.record(z.string(), z.number())
+});
+export type User = z.infer<typeof UserSchema>;`);
+  });
+
+  it('should follow the date, bigint and well-known type mappings', () => {
+    const message: ProtoMessage = {
+      name: 'Event',
+      fields: [
+        field('created_at', 1, 'Timestamp'),
+        field('sequence', 2, 'int64'),
+        field('ttl', 3, 'google.protobuf.Duration'),
+        field('note', 4, 'google.protobuf.StringValue'),
+        field('payload', 5, 'bytes')
+      ]
+    };
+
+    const defaults = new ZodSchemaGenerator().generateSchemas(schemaOf([message]));
+    expect(defaults).toContain(`  createdAt: z.coerce.date(),
+  sequence: z.coerce.bigint(),
+  ttl: z.string(),
+  note: z.string().nullable(),
+  payload: bytesSchema`);
+    expect(defaults).toContain('const bytesSchema: z.ZodType<Uint8Array, z.ZodTypeDef, unknown> = z.union([');
+
+    const strings = new ZodSchemaGenerator({
+      dateAsString: true,
+      bigintAsString: true,
+      wellKnownTypes: { Duration: '`${number}s`' }
+    }).generateSchemas(schemaOf([message]));
+    expect(strings).toContain(`  createdAt: z.string(),
+  sequence: z.string(),
+  ttl: z.custom<\`\${number}s\`>(),`);
+  });
+
+  it('should generate oneofs in the configured style', () => {
+    const schema = schemaOf([{
+      name: 'PaymentRequest',
+      fields: [
+        field('amount', 1, 'double'),
+        field('card', 2, 'string', { optional: true, oneof: 'method' }),
+        field('iban', 3, 'string', { optional: true, oneof: 'method' })
+      ],
+      oneofs: [{ name: 'method', fields: ['card', 'iban'] }]
+    }]);
+
+    expect(new ZodSchemaGenerator().generateSchemas(schema)).toContain(`export const PaymentRequestSchema = z.object({
+  amount: z.number()
+}).and(z.union([
+  z.object({ card: z.string(), iban: z.never().optional() }),
+  z.object({ card: z.never().optional(), iban: z.string() }),
+  z.object({ card: z.never().optional(), iban: z.never().optional() })
+]));`);
+    expect(new ZodSchemaGenerator({ oneofStyle: 'tagged' }).generateSchemas(schema)).toContain(`  method: z.discriminatedUnion('case', [
+    z.object({ case: z.literal('card'), value: z.string() }),
+    z.object({ case: z.literal('iban'), value: z.string() })
+  ]).optional()`);
+  });
+
+  it('should generate enums in the configured style', () => {
+    const status: ProtoEnum = {
+      name: 'Status',
+      values: [{ name: 'STATUS_UNSPECIFIED', number: 0 }, { name: 'STATUS_ACTIVE', number: 1 }]
+    };
+    const schema = schemaOf([{ name: 'User', fields: [field('status', 1, 'Status')] }], [status]);
+
+    const union = new ZodSchemaGenerator({ omitEnumUnspecified: true }).generateSchemas(schema);
+    expect(union).toContain("export const StatusSchema = z.enum(['STATUS_ACTIVE']);");
+    expect(union).toContain('  status: StatusSchema');
+
+    const native = new ZodSchemaGenerator({ enumStyle: 'enum' }).generateSchemas(schema);
+    expect(native).toContain("import * as Types from './types.js';");
+    expect(native).toContain('export const StatusSchema = z.nativeEnum(Types.Status);');
+  });
+
+  it('should type messages with output-only fields by their interface and generate input schemas', () => {
+    const result = new ZodSchemaGenerator().generateSchemas(schemaOf([
+      { name: 'User', fields: [field('id', 1, 'string', { behaviors: ['OUTPUT_ONLY'] }), field('name', 2, 'string', { behaviors: ['REQUIRED'] })] },
+      { name: 'Address', fields: [field('city', 1)] },
+      { name: 'CreateUserRequest', isRequest: true, fields: [field('user', 1, 'User')] }
+    ]));
+
+    expect(result).toContain("import * as Types from './types.js';");
+    expect(result).toContain('export const UserSchema: z.ZodType<Types.User, z.ZodTypeDef, unknown> = z.object({');
+    expect(result).toContain(`export const UserInputSchema = z.object({
+  name: z.string()
+});
+export type UserInput = z.infer<typeof UserInputSchema>;`);
+    expect(result).toContain('  user: UserInputSchema');
+  });
+
+  it('should type recursive messages explicitly and refer to them lazily', () => {
+    const result = new ZodSchemaGenerator().generateSchemas(schemaOf([
+      { name: 'Node', fields: [field('name', 1), field('children', 2, 'Node', { repeated: true })] }
+    ]));
+
+    expect(result).toContain("import * as Types from './types.js';");
+    expect(result).toContain(`export const NodeSchema: z.ZodType<Types.Node, z.ZodTypeDef, unknown> = z.object({
+  name: z.string(),
+  children: z.array(z.lazy(() => NodeSchema))
+});`);
+  });
+
+  it('should compile with zod, parse JSON and infer exactly the types of types.ts', async () => {
+    const schema = schemaOf([
+      {
+        name: 'User',
+        fields: [
+          field('id', 1, 'string', { behaviors: ['OUTPUT_ONLY'] }),
+          field('display_name', 2, 'string', { optional: true }),
+          field('status', 3, 'Status'),
+          field('created_at', 4, 'Timestamp'),
+          field('quota', 5, 'int64'),
+          field('avatar', 6, 'bytes', { optional: true }),
+          field('labels', 7, 'string', { keyType: 'string' }),
+          field('address', 8, 'Address'),
+          field('email', 9, 'string', { optional: true, oneof: 'contact' }),
+          field('phone', 10, 'string', { optional: true, oneof: 'contact' })
+        ],
+        oneofs: [{ name: 'contact', fields: ['email', 'phone'] }]
+      },
+      { name: 'Address', fields: [field('city', 1)] },
+      { name: 'CreateUserRequest', isRequest: true, fields: [field('user', 1, 'User'), field('tags', 2, 'string', { repeated: true })] }
+    ], [{ name: 'Status', values: [{ name: 'STATUS_UNSPECIFIED', number: 0 }, { name: 'STATUS_ACTIVE', number: 1 }] }]);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2fetch-'));
+    try {
+      fs.symlinkSync(path.resolve('node_modules'), path.join(dir, 'node_modules'), 'dir');
+      fs.writeFileSync(path.join(dir, 'types.ts'), new TypeScriptTypeGenerator().generateTypes(schema));
+      fs.writeFileSync(path.join(dir, 'schemas.ts'), new ZodSchemaGenerator().generateSchemas(schema));
+      fs.writeFileSync(path.join(dir, 'check.ts'), [
+        "import type * as Types from './types.js';",
+        "import type * as Schemas from './schemas.js';",
+        'type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;',
+        ...['Status', 'User', 'UserInput', 'Address', 'CreateUserRequest'].map(name =>
+          `export const ${name}Matches: Equals<Schemas.${name}, Types.${name}> = true;`),
+        ''
+      ].join('\n'));
+
+      const program = ts.createProgram([path.join(dir, 'check.ts')], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        lib: ['lib.es2020.d.ts', 'lib.dom.d.ts']
+      });
+      const errors = ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+      expect(errors).toEqual([]);
+
+      const { CreateUserRequestSchema } = await import(path.join(dir, 'schemas.ts'));
+      expect(CreateUserRequestSchema.parse({
+        user: { displayName: 'Ada', status: 'STATUS_ACTIVE', createdAt: '2024-05-01T12:00:00Z', quota: '9007199254740993', avatar: 'AQID', labels: {}, address: { city: 'London' }, email: 'ada@example.com' },
+        tags: ['admin']
+      })).toEqual({
+        user: { displayName: 'Ada', status: 'STATUS_ACTIVE', createdAt: new Date('2024-05-01T12:00:00Z'), quota: 9007199254740993n, avatar: new Uint8Array([1, 2, 3]), labels: {}, address: { city: 'London' }, email: 'ada@example.com' },
+        tags: ['admin']
+      });
+      expect(CreateUserRequestSchema.safeParse({ user: { email: 'ada@example.com', phone: '555' }, tags: [] }).success).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }, 30000);
+});
@@ -177,6 +177,525 @@ describe('TypeScriptTypeGenerator', () => {
       expect(result).toContain('lastName: string;');
       expect(result).toContain('createdAt: Date;');
     });
+
+    it('should link messages and enums to their declaration when source locations are enabled', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [],
+          messages: [{
+            name: 'User',
+            description: 'A registered user',
+            fields: [{ name: 'id', type: 'string', repeated: false, optional: false, number: 1 }],
+            location: { file: 'api/users.proto', line: 12, column: 1 }
+          }],
+          enums: [{
+            name: 'Role',
+            values: [{ name: 'ROLE_ADMIN', number: 0 }],
+            location: { file: 'api/users.proto', line: 5, column: 1 }
+          }],
+          imports: []
+        }]
+      };
+
+      const result = new TypeScriptTypeGenerator({ includeSourceLocations: true }).generateTypes(schema);
+
+      expect(result).toContain('/**\n * A registered user\n * @see api/users.proto:12\n */\nexport interface User');
+      expect(result).toContain('/**\n * @see api/users.proto:5\n */\nexport type Role');
+      expect(generator.generateTypes(schema)).not.toContain('@see');
+    });
+  });
+
+  describe('map fields', () => {
+    it('should generate Record types keyed by string', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [],
+          messages: [
+            {
+              name: 'Resource',
+              fields: [
+                { name: 'labels', type: 'Label', keyType: 'string', repeated: false, optional: false, number: 1 },
+                { name: 'aliases', type: 'string', keyType: 'int64', repeated: false, optional: false, number: 2 },
+                { name: 'counters', type: 'int64', keyType: 'string', repeated: false, optional: false, number: 3 }
+              ]
+            },
+            {
+              name: 'Label',
+              fields: [
+                { name: 'value', type: 'string', repeated: false, optional: false, number: 1 }
+              ]
+            }
+          ],
+          imports: []
+        }]
+      };
+
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain('labels: Record<string, Label>;');
+      expect(result).toContain('aliases: Record<string, string>;');
+      expect(result).toContain('counters: Record<string, bigint>;');
+      // Map value types are declared before the messages using them
+      expect(result.indexOf('export interface Label')).toBeLessThan(result.indexOf('export interface Resource'));
+    });
+  });
+
+  describe('oneofs', () => {
+    const schema: ParsedSchema = {
+      files: [{
+        package: 'test',
+        services: [],
+        messages: [
+          {
+            name: 'PaymentRequest',
+            fields: [
+              { name: 'amount', type: 'int64', repeated: false, optional: false, number: 1 },
+              { name: 'card', type: 'Card', repeated: false, optional: true, number: 2, oneof: 'method' },
+              { name: 'bank_account', type: 'BankAccount', repeated: false, optional: true, number: 3, oneof: 'method' }
+            ],
+            oneofs: [
+              { name: 'method', fields: ['card', 'bank_account'] }
+            ]
+          }
+        ],
+        imports: []
+      }]
+    };
+
+    it('should generate exclusive members as a discriminated union', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain(`export type PaymentRequest = {
+  amount: bigint;
+} & (
+  | {
+      card: Card;
+      bankAccount?: never;
+    }
+  | {
+      card?: never;
+      bankAccount: BankAccount;
+    }
+  | {
+      card?: never;
+      bankAccount?: never;
+    }
+);`);
+    });
+
+    it('should generate tagged case/value unions when requested', () => {
+      const taggedGenerator = new TypeScriptTypeGenerator({ oneofStyle: 'tagged' });
+      const result = taggedGenerator.generateTypes(schema);
+
+      expect(result).toContain(`export interface PaymentRequest {
+  amount: bigint;
+  method?:
+    | { case: 'card'; value: Card }
+    | { case: 'bankAccount'; value: BankAccount };
+}`);
+    });
+  });
+
+  describe('field behaviors', () => {
+    const field = (name: string, number: number, behaviors?: string[], type: string = 'string'): ProtoField =>
+      ({ name, type, repeated: false, optional: false, number, behaviors });
+
+    const schema: ParsedSchema = {
+      files: [{
+        package: 'test',
+        services: [],
+        messages: [
+          {
+            name: 'User',
+            fields: [
+              field('id', 1, ['OUTPUT_ONLY']),
+              field('display_name', 2, ['REQUIRED']),
+              field('password', 3, ['INPUT_ONLY']),
+              field('nickname', 4),
+              field('address', 5, undefined, 'Address')
+            ]
+          },
+          {
+            name: 'Address',
+            fields: [field('etag', 1, ['OUTPUT_ONLY']), field('city', 2)]
+          },
+          {
+            name: 'Tag',
+            fields: [field('label', 1)]
+          },
+          {
+            name: 'CreateUserRequest',
+            isRequest: true,
+            fields: [field('user', 1, ['REQUIRED'], 'User'), field('request_id', 2)]
+          }
+        ],
+        imports: []
+      }]
+    };
+
+    it('should mark output-only fields readonly and omit input-only fields from response types', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain([
+        'export interface User {',
+        '  readonly id: string;',
+        '  displayName: string;',
+        '  nickname: string;',
+        '  address: Address;',
+        '}'
+      ].join('\n'));
+    });
+
+    it('should generate input variants without output-only fields', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain([
+        'export interface UserInput {',
+        '  displayName: string;',
+        '  password?: string;',
+        '  nickname?: string;',
+        '  address?: AddressInput;',
+        '}'
+      ].join('\n'));
+      expect(result).toContain('export interface AddressInput {\n  city?: string;\n}');
+      expect(result).not.toContain('TagInput');
+    });
+
+    it('should generate request messages in their input form only', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain('export interface CreateUserRequest {\n  user: UserInput;\n  requestId?: string;\n}');
+      expect(result).not.toContain('CreateUserRequestInput');
+    });
+  });
+
+  describe('field naming', () => {
+    const schema: ParsedSchema = {
+      files: [{
+        package: 'test',
+        services: [],
+        messages: [{
+          name: 'Person',
+          fields: [
+            { name: 'first_name', jsonName: 'givenName', type: 'string', repeated: false, optional: false, number: 1 },
+            { name: 'address_line_1', jsonName: 'addressLine1', type: 'string', repeated: false, optional: false, number: 2 }
+          ]
+        }],
+        imports: []
+      }]
+    };
+
+    it('should name properties by their proto3 JSON name', () => {
+      const result = new TypeScriptTypeGenerator({ fieldNaming: 'jsonName' }).generateTypes(schema);
+      expect(result).toContain('export interface Person {\n  givenName: string;\n  addressLine1: string;\n}');
+    });
+
+    it('should keep declared names with the original strategy', () => {
+      const result = new TypeScriptTypeGenerator({ fieldNaming: 'original' }).generateTypes(schema);
+      expect(result).toContain('export interface Person {\n  first_name: string;\n  address_line_1: string;\n}');
+    });
+  });
+
+  describe('doc comments', () => {
+    it('should render multi-line comments line by line', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [],
+          messages: [{
+            name: 'Task',
+            description: 'A unit of work.\n\nNames look like users/*/tasks/1',
+            fields: []
+          }],
+          imports: []
+        }]
+      };
+
+      const result = new TypeScriptTypeGenerator().generateTypes(schema);
+
+      expect(result).toContain('/**\n * A unit of work.\n *\n * Names look like users/*\\/tasks/1\n */\nexport interface Task {');
+    });
+  });
+
+  describe('deprecation', () => {
+    it('should tag deprecated messages, fields and enum values', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [],
+          messages: [{
+            name: 'Profile',
+            deprecated: true,
+            fields: [{
+              name: 'nickname',
+              type: 'string',
+              repeated: false,
+              optional: false,
+              number: 1,
+              description: 'Deprecated: use display_name instead',
+              deprecated: true
+            }]
+          }],
+          enums: [{ name: 'Tier', values: [{ name: 'TIER_GOLD', number: 1, deprecated: true }] }],
+          imports: []
+        }]
+      };
+
+      const result = new TypeScriptTypeGenerator({ enumStyle: 'enum' }).generateTypes(schema);
+
+      expect(result).toContain('/**\n * @deprecated\n */\nexport interface Profile {');
+      expect(result).toContain('  /**\n   * Deprecated: use display_name instead\n   * @deprecated use display_name instead\n   */\n  nickname: string;');
+      expect(result).toContain("  /**\n   * @deprecated\n   */\n  TIER_GOLD = 'TIER_GOLD'");
+    });
+
+    it('should list deprecated values of union enums on the type', () => {
+      const schema: ParsedSchema = {
+        files: [{
+          package: 'test',
+          services: [],
+          messages: [],
+          enums: [{
+            name: 'Tier',
+            description: 'Subscription tier',
+            values: [
+              { name: 'TIER_FREE', number: 0 },
+              { name: 'TIER_GOLD', number: 1, description: 'Deprecated: use TIER_PRO instead', deprecated: true },
+              { name: 'TIER_SILVER', number: 2, deprecated: true },
+              { name: 'TIER_PRO', number: 3 }
+            ]
+          }],
+          imports: []
+        }]
+      };
+
+      const result = new TypeScriptTypeGenerator().generateTypes(schema);
+
+      expect(result).toContain([
+        '/**',
+        ' * Subscription tier',
+        ' *',
+        ' * Deprecated values:',
+        ' * - `TIER_GOLD`: use TIER_PRO instead',
+        ' * - `TIER_SILVER`',
+        ' */',
+        'export type Tier =',
+        "  | 'TIER_FREE'",
+        "  | 'TIER_GOLD'",
+        "  | 'TIER_SILVER'",
+        "  | 'TIER_PRO';"
+      ].join('\n'));
+    });
+  });
+
+  describe('enums', () => {
+    const schema: ParsedSchema = {
+      files: [{
+        package: 'test',
+        services: [],
+        messages: [
+          {
+            name: 'User',
+            fields: [
+              { name: 'status', type: 'UserStatus', repeated: false, optional: false, number: 1 }
+            ]
+          }
+        ],
+        enums: [
+          {
+            name: 'UserStatus',
+            values: [
+              { name: 'USER_STATUS_UNSPECIFIED', number: 0 },
+              { name: 'USER_STATUS_ACTIVE', number: 1 },
+              { name: 'USER_STATUS_SUSPENDED', number: 2 }
+            ]
+          }
+        ],
+        imports: []
+      }]
+    };
+
+    it('should generate string literal unions by default', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain(`export type UserStatus =
+  | 'USER_STATUS_UNSPECIFIED'
+  | 'USER_STATUS_ACTIVE'
+  | 'USER_STATUS_SUSPENDED';`);
+      expect(result).toContain('status: UserStatus;');
+      expect(result.indexOf('export type UserStatus')).toBeLessThan(result.indexOf('export interface User'));
+    });
+
+    it('should generate TypeScript enums', () => {
+      const enumGenerator = new TypeScriptTypeGenerator({ enumStyle: 'enum' });
+      const result = enumGenerator.generateTypes(schema);
+
+      expect(result).toContain('export enum UserStatus {');
+      expect(result).toContain('  USER_STATUS_ACTIVE = \'USER_STATUS_ACTIVE\',');
+    });
+
+    it('should generate as const objects', () => {
+      const constGenerator = new TypeScriptTypeGenerator({ enumStyle: 'const' });
+      const result = constGenerator.generateTypes(schema);
+
+      expect(result).toContain('export const UserStatus = {');
+      expect(result).toContain('  USER_STATUS_SUSPENDED: \'USER_STATUS_SUSPENDED\'\n} as const;');
+      expect(result).toContain('export type UserStatus = (typeof UserStatus)[keyof typeof UserStatus];');
+    });
+
+    it('should omit the unspecified zero value in every style when requested', () => {
+      for (const enumStyle of ['union', 'enum', 'const'] as const) {
+        const result = new TypeScriptTypeGenerator({ enumStyle, omitEnumUnspecified: true }).generateTypes(schema);
+
+        expect(result).not.toContain('USER_STATUS_UNSPECIFIED');
+        expect(result).toContain('USER_STATUS_ACTIVE');
+      }
+    });
+
+    it('should not generate duplicate enums', () => {
+      const duplicated: ParsedSchema = { files: [schema.files[0]!, schema.files[0]!] };
+      const result = generator.generateTypes(duplicated);
+
+      expect(result.match(/export type UserStatus =/g)?.length).toBe(1);
+    });
+  });
+
+  describe('type naming', () => {
+    const schema: ParsedSchema = {
+      files: [
+        {
+          package: 'billing.v1',
+          services: [],
+          messages: [{
+            name: 'Invoice',
+            fullName: 'billing.v1.Invoice',
+            package: 'billing.v1',
+            fields: [
+              { name: 'id', type: 'string', repeated: false, optional: false, number: 1 },
+              { name: 'legacy', type: 'legacy.Invoice', repeated: false, optional: false, number: 2 }
+            ]
+          }],
+          imports: []
+        },
+        {
+          package: 'legacy',
+          services: [],
+          messages: [{
+            name: 'Invoice',
+            fullName: 'legacy.Invoice',
+            package: 'legacy',
+            fields: [{ name: 'number', type: 'string', repeated: false, optional: false, number: 1 }]
+          }],
+          imports: []
+        }
+      ]
+    };
+
+    it('should prefix colliding type names with their package', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain('export interface BillingV1_Invoice {');
+      expect(result).toContain('export interface Legacy_Invoice {');
+      expect(result).toContain('legacy: Legacy_Invoice;');
+      expect(result).not.toContain('export interface Invoice {');
+    });
+
+    it('should keep short names when they are unique', () => {
+      const single: ParsedSchema = { files: [schema.files[1]!] };
+      const result = generator.generateTypes(single);
+
+      expect(result).toContain('export interface Invoice {');
+    });
+
+    it('should flatten nested declarations into parent-prefixed names', () => {
+      const nested: ParsedSchema = {
+        files: [{
+          package: 'orders',
+          services: [],
+          messages: [
+            {
+              name: 'Order',
+              fullName: 'orders.Order',
+              package: 'orders',
+              fields: [{ name: 'items', type: 'orders.Order.LineItem', repeated: true, optional: false, number: 1 }]
+            },
+            {
+              name: 'LineItem',
+              fullName: 'orders.Order.LineItem',
+              package: 'orders',
+              fields: [{ name: 'kind', type: 'orders.Order.LineItem.Kind', repeated: false, optional: false, number: 1 }]
+            }
+          ],
+          enums: [{
+            name: 'Kind',
+            fullName: 'orders.Order.LineItem.Kind',
+            package: 'orders',
+            values: [{ name: 'KIND_PHYSICAL', number: 1 }]
+          }],
+          imports: []
+        }]
+      };
+
+      const result = generator.generateTypes(nested);
+
+      expect(result).toContain('export interface Order_LineItem {');
+      expect(result).toContain('export type Order_LineItem_Kind =');
+      expect(result).toContain('items: Order_LineItem[];');
+      expect(result).toContain('kind: Order_LineItem_Kind;');
+      expect(result).not.toContain('Order.LineItem');
+    });
+
+    it('should always prefix packages with the qualified strategy', () => {
+      const single: ParsedSchema = { files: [schema.files[1]!] };
+      const result = new TypeScriptTypeGenerator({ typeNaming: 'qualified' }).generateTypes(single);
+
+      expect(result).toContain('export interface Legacy_Invoice {');
+    });
+  });
+
+  describe('well-known types', () => {
+    const field = (name: string, type: string, repeated = false): ProtoField => ({
+      name, type, repeated, optional: false, number: 1
+    });
+    const schema: ParsedSchema = {
+      files: [{
+        package: 'test',
+        services: [],
+        messages: [{
+          name: 'Job',
+          fields: [
+            field('timeout', 'google.protobuf.Duration'),
+            field('metadata', 'google.protobuf.Struct'),
+            field('payload', '.google.protobuf.Any'),
+            field('nickname', 'google.protobuf.StringValue'),
+            field('scores', 'google.protobuf.Int32Value', true),
+            field('update_mask', 'google.protobuf.FieldMask')
+          ]
+        }],
+        imports: []
+      }]
+    };
+
+    it('should map well-known types to their JSON representation', () => {
+      const result = generator.generateTypes(schema);
+
+      expect(result).toContain('timeout: string;');
+      expect(result).toContain('metadata: Record<string, unknown>;');
+      expect(result).toContain("payload: { '@type': string; [key: string]: unknown };");
+      expect(result).toContain('nickname: string | null;');
+      expect(result).toContain('scores: (number | null)[];');
+      expect(result).toContain('updateMask: string;');
+    });
+
+    it('should apply well-known type overrides', () => {
+      const result = new TypeScriptTypeGenerator({
+        wellKnownTypes: { Duration: 'number', 'google.protobuf.StringValue': 'string | undefined' }
+      }).generateTypes(schema);
+
+      expect(result).toContain('timeout: number;');
+      expect(result).toContain('nickname: string | undefined;');
+    });
   });
 
   describe('generateFilterBuilders', () => {
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { assertValid, validateMessage } from '../src/runtime/validation.js';
+import type { ValidationRules } from '../src/runtime/validation.js';
+import { APIError } from '../src/runtime/error.js';
+
+describe('request validation', () => {
+  const rules: ValidationRules = {
+    SignupRequest: {
+      fields: {
+        email: { required: true, format: 'email' },
+        age: { gte: 13, lt: 150 },
+        tags: { maxItems: 2, unique: true, items: { minLen: 1 } },
+        referralCode: { ignoreEmpty: true, prefix: 'REF-' }
+      },
+      messages: { address: 'Address' },
+      requiredOneofs: { contact: ['phone', 'website'] },
+      taggedOneofs: ['contact']
+    },
+    Address: { fields: { countryCode: { len: 2, pattern: '^[A-Z]+$' } } }
+  };
+
+  it('should accept a valid message', () => {
+    const request = {
+      email: 'ada@example.com',
+      age: 36,
+      tags: ['math'],
+      referralCode: '',
+      address: { countryCode: 'GB' },
+      contact: { case: 'phone', value: '+44 20 7946 0000' }
+    };
+
+    expect(validateMessage(request, 'SignupRequest', rules)).toEqual([]);
+  });
+
+  it('should report every violation under the property path of its field', () => {
+    const request = { email: 'ada', age: 12, tags: ['a', 'a', ''], address: { countryCode: 'gb' } };
+
+    expect(validateMessage(request, 'SignupRequest', rules)).toEqual([
+      { field: 'contact', message: 'is required' },
+      { field: 'email', message: 'must be a valid email address' },
+      { field: 'age', message: 'must be greater than or equal to 13' },
+      { field: 'tags', message: 'must contain at most 2 items' },
+      { field: 'tags', message: 'must not contain duplicate items' },
+      { field: 'tags[2]', message: 'must be at least 1 character' },
+      { field: 'address.countryCode', message: 'must match ^[A-Z]+$' }
+    ]);
+  });
+
+  it('should throw a validation APIError with field errors', () => {
+    const request = { age: 20, contact: { case: 'website', value: 'https://example.com' } };
+
+    try {
+      assertValid(request, 'SignupRequest', rules);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(APIError);
+      expect((error as APIError).code).toBe('VALIDATION_ERROR');
+      expect((error as APIError).getFieldErrors()).toEqual({ email: ['is required'] });
+    }
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { ValidatorGenerator, buildValidationRules } from '../src/generator/validator-generator.js';
+import { APIClientGenerator } from '../src/generator/client-generator.js';
+import { ProtoParser } from '../src/generator/parser.js';
+import { TypeNameResolver } from '../src/generator/type-names.js';
+import { validateMessage } from '../src/runtime/validation.js';
+import type { ProtoEnum, ProtoMessage } from '../src/types/index.js';
+import { field, schemaOf } from './helpers.js';
+
+const messages: ProtoMessage[] = [
+  { name: 'CreateUserRequest', fields: [field('user', 1, 'User')], isRequest: true },
+  {
+    name: 'User',
+    fields: [
+      field('id', 1, 'string', { behaviors: ['OUTPUT_ONLY'], rules: { required: true } }),
+      field('email_address', 2, 'string', { rules: { required: true, format: 'email' } }),
+      field('nickname', 3, 'string', { rules: { pattern: "^[a-z']+$" } })
+    ]
+  },
+  { name: 'GetUserRequest', fields: [field('id', 1)], isRequest: true }
+];
+
+describe('ValidatorGenerator', () => {
+  it('should generate a rules table and a validate function per constrained message', () => {
+    const result = new ValidatorGenerator().generateValidators(schemaOf(messages));
+
+    expect(result).toContain(`export const validationRules: ValidationRules = {
+  CreateUserRequest: {
+    messages: { user: 'User' }
+  },
+  User: {
+    fields: {
+      emailAddress: { required: true, format: 'email' },
+      nickname: { pattern: '^[a-z\\']+$' }
+    },
+    zeroValues: { emailAddress: '', nickname: '' }
+  }
+};`);
+    expect(result).toContain(`export function validateUser(value: Types.UserInput): ErrorDetail[] {
+  return validateMessage(value, 'User', validationRules);
+}`);
+    expect(result).toContain('export function validateCreateUserRequest(value: Types.CreateUserRequest)');
+    expect(result).not.toContain('validateGetUserRequest');
+  });
+
+  it('should let the client check requests of constrained messages when asked to', () => {
+    const client = new APIClientGenerator({
+      clientName: 'UserClient',
+      baseUrl: '',
+      generateComments: false,
+      generateFilterBuilders: false,
+      generateSortBuilders: false,
+      generateValidators: true
+    }).generateClient({
+      files: [{
+        package: 'test',
+        services: [{
+          name: 'UserService',
+          methods: [
+            { name: 'CreateUser', inputType: 'CreateUserRequest', outputType: 'User', httpMethod: 'POST', httpPath: '/v1/users', body: '*' },
+            { name: 'GetUser', inputType: 'GetUserRequest', outputType: 'User', httpMethod: 'GET', httpPath: '/v1/users/{id}' }
+          ]
+        }],
+        messages,
+        imports: []
+      }]
+    });
+
+    expect(client).toContain("import { validationRules } from './validators.js';");
+    expect(client).toContain('this.validateRequests = config?.validateRequests ?? false;');
+    expect(client).toContain(`  async createUser(request: Types.CreateUserRequest, options?: RequestOptions): Promise<Types.User> {
+    if (this.validateRequests) {
+      assertValid(request, 'CreateUserRequest', validationRules);
+    }`);
+    expect(client.match(/assertValid\(/g)).toHaveLength(1);
+  });
+
+  it('should keep repeated, item and map rules and check map values of constrained messages', () => {
+    const tagMessages: ProtoMessage[] = [
+      { name: 'Label', fields: [field('value', 1, 'string', { rules: { minLen: 1 } })] },
+      {
+        name: 'TagRequest',
+        isRequest: true,
+        fields: [
+          field('tags', 1, 'string', { repeated: true, rules: { minItems: 1, unique: true, items: { pattern: '^[a-z]+$' } } }),
+          field('labels', 2, 'Label', { keyType: 'string', rules: { maxItems: 2, keys: { maxLen: 3 } } }),
+          field('counts', 3, 'int32', { keyType: 'string', rules: { values: { gte: 0 } } })
+        ]
+      }
+    ];
+    const rules = buildValidationRules(tagMessages, new TypeNameResolver(tagMessages));
+
+    expect(new ValidatorGenerator().generateValidators(schemaOf(tagMessages))).toContain(`  TagRequest: {
+    fields: {
+      tags: { minItems: 1, unique: true, items: { pattern: '^[a-z]+$' } },
+      labels: { maxItems: 2, keys: { maxLen: 3 } },
+      counts: { values: { gte: 0 } }
+    },
+    zeroValues: { tags: [], labels: {}, counts: {} },
+    mapMessages: { labels: 'Label' }
+  }`);
+    expect(validateMessage({ tags: ['a', 'B'], labels: { long: { value: '' } }, counts: { x: -1 } }, 'TagRequest', rules)).toEqual([
+      { field: 'tags[1]', message: 'must match ^[a-z]+$' },
+      { field: 'labels[long]', message: 'must be at most 3 characters' },
+      { field: 'counts[x]', message: 'must be greater than or equal to 0' },
+      { field: 'labels[long].value', message: 'must be at least 1 character' }
+    ]);
+  });
+
+  it('should require a member of required oneofs, in either oneof style', () => {
+    const oneofMessages: ProtoMessage[] = [{
+      name: 'ContactRequest',
+      isRequest: true,
+      fields: [
+        field('phone', 1, 'string', { optional: true, oneof: 'contact' }),
+        field('email', 2, 'string', { optional: true, oneof: 'contact' })
+      ],
+      oneofs: [{ name: 'contact', fields: ['phone', 'email'], required: true }]
+    }];
+    const typeNames = new TypeNameResolver(oneofMessages);
+
+    expect(buildValidationRules(oneofMessages, typeNames)).toEqual({
+      ContactRequest: { requiredOneofs: { contact: ['phone', 'email'] } }
+    });
+    expect(buildValidationRules(oneofMessages, typeNames, { oneofStyle: 'tagged' })).toEqual({
+      ContactRequest: { requiredOneofs: { contact: ['phone', 'email'] }, taggedOneofs: ['contact'] }
+    });
+  });
+
+  it('should follow message fields to messages that are only constrained further down', () => {
+    const nestedMessages: ProtoMessage[] = [
+      { name: 'Order', fields: [field('shipment', 1, 'Shipment'), field('note', 2)] },
+      { name: 'Shipment', fields: [field('parcels', 1, 'Parcel', { repeated: true })] },
+      { name: 'Parcel', fields: [field('code', 1, 'string', { rules: { len: 3 } })] },
+      { name: 'Receipt', fields: [field('id', 1)] }
+    ];
+    const rules = buildValidationRules(nestedMessages, new TypeNameResolver(nestedMessages));
+
+    expect(rules).toEqual({
+      Order: { messages: { shipment: 'Shipment' } },
+      Shipment: { messages: { parcels: 'Parcel' } },
+      Parcel: { fields: { code: { len: 3 } }, zeroValues: { code: '' } }
+    });
+    expect(validateMessage({ shipment: { parcels: [{ code: 'abc' }, { code: 'ab' }] } }, 'Order', rules)).toEqual([
+      { field: 'shipment.parcels[1].code', message: 'must be exactly 3 characters' }
+    ]);
+  });
+
+  it('should check unset fields without explicit presence as their zero value', () => {
+    const enums: ProtoEnum[] = [{ name: 'Plan', values: [{ name: 'PLAN_UNSPECIFIED', number: 0 }, { name: 'PLAN_PRO', number: 1 }] }];
+    const signupMessages: ProtoMessage[] = [{
+      name: 'SignupRequest',
+      isRequest: true,
+      fields: [
+        field('name', 1, 'string', { rules: { minLen: 1 } }),
+        field('seats', 2, 'int32', { rules: { gt: 0 } }),
+        field('plan', 3, 'Plan', { rules: { in: ['PLAN_PRO'] } }),
+        field('emails', 4, 'string', { repeated: true, rules: { minItems: 1 } }),
+        field('nickname', 5, 'string', { optional: true, rules: { minLen: 3 } }),
+        field('coupon', 6, 'string', { rules: { ignoreEmpty: true, len: 8 } })
+      ]
+    }];
+    const rules = buildValidationRules(signupMessages, new TypeNameResolver([...enums, ...signupMessages]), {}, enums);
+    const expected = [
+      { field: 'name', message: 'must be at least 1 character' },
+      { field: 'seats', message: 'must be greater than 0' },
+      { field: 'plan', message: 'must be one of PLAN_PRO' },
+      { field: 'emails', message: 'must contain at least 1 item' }
+    ];
+
+    expect(rules.SignupRequest?.zeroValues).toEqual({ name: '', seats: 0, plan: 'PLAN_UNSPECIFIED', emails: [], coupon: '' });
+    expect(validateMessage({}, 'SignupRequest', rules)).toEqual(expected);
+    expect(validateMessage({ name: '', seats: 0, plan: 'PLAN_UNSPECIFIED', emails: [], coupon: '' }, 'SignupRequest', rules)).toEqual(expected);
+    expect(validateMessage({ name: 'Ada', seats: 1, plan: 'PLAN_PRO', emails: ['ada@example.com'] }, 'SignupRequest', rules)).toEqual([]);
+  });
+
+  it('should generate the same rules from protoc-gen-validate and protovalidate options', async () => {
+    const parsed = await new ProtoParser().parseFromSources({
+      'contacts.proto': [
+        'syntax = "proto3";',
+        'package contacts.v1;',
+        'import "buf/validate/validate.proto";',
+        'import "validate/validate.proto";',
+        'message Legacy {',
+        '  string email = 1 [(validate.rules).string.email = true];',
+        '  repeated string tags = 2 [(validate.rules).repeated = {min_items: 1, items: {string: {max_len: 8}}}];',
+        '  map<string, int32> scores = 3 [(validate.rules).map = {max_pairs: 2, values: {int32: {gt: 0}}}];',
+        '  oneof contact {',
+        '    option (validate.required) = true;',
+        '    string phone = 4;',
+        '    string fax = 5;',
+        '  }',
+        '}',
+        'message Current {',
+        '  string email = 1 [(buf.validate.field).string.email = true];',
+        '  repeated string tags = 2 [(buf.validate.field).repeated = {min_items: 1, items: {string: {max_len: 8}}}];',
+        '  map<string, int32> scores = 3 [(buf.validate.field).map = {max_pairs: 2, values: {int32: {gt: 0}}}];',
+        '  oneof contact {',
+        '    option (buf.validate.oneof).required = true;',
+        '    string phone = 4;',
+        '    string fax = 5;',
+        '  }',
+        '}'
+      ].join('\n')
+    });
+    const parsedMessages = parsed.files.flatMap(file => file.messages);
+    const rules = buildValidationRules(parsedMessages, new TypeNameResolver(parsedMessages));
+
+    expect(rules.Legacy).toEqual({
+      fields: {
+        email: { format: 'email' },
+        tags: { minItems: 1, items: { maxLen: 8 } },
+        scores: { maxItems: 2, values: { gt: 0 } }
+      },
+      requiredOneofs: { contact: ['phone', 'fax'] },
+      zeroValues: { email: '', tags: [], scores: {} }
+    });
+    expect(rules.Current).toEqual(rules.Legacy);
+  });
+});